@@ -1,28 +1,69 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, euint64, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract BargainFHE is ZamaEthereumConfig {
+    enum SettlementPolicy {
+        Midpoint,
+        SellerAsk,
+        BuyerBid,
+        Weighted
+    }
+
+    enum SessionState {
+        Open,
+        Joined,
+        Revealing,
+        Matched,
+        NoDeal,
+        Expired,
+        Cancelled,
+        Countering
+    }
+
     struct BargainSession {
         address buyer;
         address seller;
         euint32 encryptedBuyerPrice;
         euint32 encryptedSellerPrice;
+        ebool encryptedMatch;
+        euint64 encryptedSettlementPrice;
+        SettlementPolicy settlementPolicy;
+        uint8 bidWeightPercent;
+        uint256 settlementPrice;
         uint256 publicBuyerPrice;
         uint256 publicSellerPrice;
+        bool buyerRevealRequested;
+        bool sellerRevealRequested;
         bool buyerRevealed;
         bool sellerRevealed;
-        bool dealMatched;
+        SessionState state;
+        bool privateMode;
         uint256 timestamp;
+        uint256 deadline;
+        uint8 round;
+        uint8 maxRounds;
+        bool buyerCountered;
+        bool sellerCountered;
+        bool inviteOnly;
     }
 
     mapping(bytes32 => BargainSession) public sessions;
+    mapping(bytes32 => mapping(address => bool)) public invitedSellers;
     bytes32[] public sessionIds;
 
     event SessionCreated(bytes32 indexed sessionId, address indexed buyer, address indexed seller);
+    event RevealRequested(bytes32 indexed sessionId, address indexed revealer, bytes32 handle);
     event PriceRevealed(bytes32 indexed sessionId, address indexed revealer, uint256 price);
-    event DealMatched(bytes32 indexed sessionId, uint256 price);
+    event MatchComputed(bytes32 indexed sessionId, uint8 round, bytes32 matchHandle, bytes32 settlementHandle);
+    event DealMatched(bytes32 indexed sessionId, uint8 round, uint256 price);
+    event NoDeal(bytes32 indexed sessionId, uint8 round);
+    event CounterOfferSubmitted(bytes32 indexed sessionId, uint8 round, address indexed party);
+    event SellerInvited(bytes32 indexed sessionId, address indexed seller);
+    event SessionStateChanged(bytes32 indexed sessionId, SessionState state);
+    event SessionCancelled(bytes32 indexed sessionId);
+    event SessionExpired(bytes32 indexed sessionId);
 
     constructor() ZamaEthereumConfig() {}
 
@@ -32,58 +73,318 @@ contract BargainFHE is ZamaEthereumConfig {
         bytes calldata buyerProof,
         bytes calldata sellerProof,
         uint256 publicBuyerPrice,
-        uint256 publicSellerPrice
+        uint256 publicSellerPrice,
+        SettlementPolicy settlementPolicy,
+        uint8 bidWeightPercent,
+        uint256 deadline,
+        uint8 maxRounds,
+        address[] calldata allowedSellers
     ) external returns (bytes32) {
-        bytes32 sessionId = keccak256(abi.encodePacked(msg.sender, block.timestamp));
+        euint32 encryptedBuyer = FHE.fromExternal(encryptedBuyerPrice, buyerProof);
+        euint32 encryptedSeller = FHE.fromExternal(encryptedSellerPrice, sellerProof);
 
-        require(sessions[sessionId].timestamp == 0, "Session already exists");
+        require(FHE.isInitialized(encryptedSeller), "Invalid seller encryption");
+
+        bytes32 sessionId = openSession(
+            encryptedBuyer,
+            settlementPolicy,
+            bidWeightPercent,
+            deadline,
+            maxRounds,
+            false
+        );
+
+        sessions[sessionId].encryptedSellerPrice = encryptedSeller;
+        sessions[sessionId].publicBuyerPrice = publicBuyerPrice;
+        sessions[sessionId].publicSellerPrice = publicSellerPrice;
+        FHE.allowThis(encryptedSeller);
 
+        inviteSellers(sessionId, allowedSellers);
+        return sessionId;
+    }
+
+    /// @notice Privacy mode: no cleartext price is accepted, stored or revealed for this session.
+    function createPrivateSession(
+        externalEuint32 encryptedBuyerPrice,
+        bytes calldata buyerProof,
+        SettlementPolicy settlementPolicy,
+        uint8 bidWeightPercent,
+        uint256 deadline,
+        uint8 maxRounds,
+        address[] calldata allowedSellers
+    ) external returns (bytes32) {
         euint32 encryptedBuyer = FHE.fromExternal(encryptedBuyerPrice, buyerProof);
-        euint32 encryptedSeller = FHE.fromExternal(encryptedSellerPrice, sellerProof);
+        bytes32 sessionId = openSession(encryptedBuyer, settlementPolicy, bidWeightPercent, deadline, maxRounds, true);
 
+        inviteSellers(sessionId, allowedSellers);
+        return sessionId;
+    }
+
+    function openSession(
+        euint32 encryptedBuyer,
+        SettlementPolicy settlementPolicy,
+        uint8 bidWeightPercent,
+        uint256 deadline,
+        uint8 maxRounds,
+        bool privateMode
+    ) internal returns (bytes32) {
+        require(bidWeightPercent <= 100, "Invalid bid weight");
+        require(deadline > block.timestamp, "Deadline must be in the future");
+        require(maxRounds > 0, "Invalid round limit");
+
+        bytes32 sessionId = keccak256(abi.encodePacked(msg.sender, block.timestamp));
+
+        require(sessions[sessionId].timestamp == 0, "Session already exists");
         require(FHE.isInitialized(encryptedBuyer), "Invalid buyer encryption");
-        require(FHE.isInitialized(encryptedSeller), "Invalid seller encryption");
 
         sessions[sessionId] = BargainSession({
             buyer: msg.sender,
             seller: address(0),
             encryptedBuyerPrice: encryptedBuyer,
-            encryptedSellerPrice: encryptedSeller,
-            publicBuyerPrice: publicBuyerPrice,
-            publicSellerPrice: publicSellerPrice,
+            encryptedSellerPrice: euint32.wrap(0),
+            encryptedMatch: ebool.wrap(0),
+            encryptedSettlementPrice: euint64.wrap(0),
+            settlementPolicy: settlementPolicy,
+            bidWeightPercent: bidWeightPercent,
+            settlementPrice: 0,
+            publicBuyerPrice: 0,
+            publicSellerPrice: 0,
+            buyerRevealRequested: false,
+            sellerRevealRequested: false,
             buyerRevealed: false,
             sellerRevealed: false,
-            dealMatched: false,
-            timestamp: block.timestamp
+            state: SessionState.Open,
+            privateMode: privateMode,
+            timestamp: block.timestamp,
+            deadline: deadline,
+            round: 1,
+            maxRounds: maxRounds,
+            buyerCountered: false,
+            sellerCountered: false,
+            inviteOnly: false
         });
 
         FHE.allowThis(encryptedBuyer);
-        FHE.allowThis(encryptedSeller);
+        FHE.allow(encryptedBuyer, msg.sender);
 
         sessionIds.push(sessionId);
         emit SessionCreated(sessionId, msg.sender, address(0));
+        emit SessionStateChanged(sessionId, SessionState.Open);
         return sessionId;
     }
 
+    /// @notice Restricts the session to the given sellers; an empty list keeps it open to anyone.
+    function inviteSellers(bytes32 sessionId, address[] calldata allowedSellers) internal {
+        if (allowedSellers.length == 0) {
+            return;
+        }
+
+        sessions[sessionId].inviteOnly = true;
+        for (uint256 i = 0; i < allowedSellers.length; i++) {
+            address seller = allowedSellers[i];
+            require(seller != address(0) && seller != msg.sender, "Invalid invited seller");
+
+            invitedSellers[sessionId][seller] = true;
+            emit SellerInvited(sessionId, seller);
+        }
+    }
+
     function joinSession(
         bytes32 sessionId,
         externalEuint32 encryptedSellerPrice,
         bytes calldata sellerProof,
         uint256 publicSellerPrice
     ) external {
-        require(sessions[sessionId].timestamp > 0, "Session does not exist");
-        require(sessions[sessionId].seller == address(0), "Session already joined");
+        require(!sessions[sessionId].privateMode, "Private session");
 
         euint32 encryptedSeller = FHE.fromExternal(encryptedSellerPrice, sellerProof);
+        sessions[sessionId].publicSellerPrice = publicSellerPrice;
+
+        acceptSeller(sessionId, encryptedSeller);
+    }
+
+    function joinPrivateSession(
+        bytes32 sessionId,
+        externalEuint32 encryptedSellerPrice,
+        bytes calldata sellerProof
+    ) external {
+        euint32 encryptedSeller = FHE.fromExternal(encryptedSellerPrice, sellerProof);
+        acceptSeller(sessionId, encryptedSeller);
+    }
+
+    function acceptSeller(bytes32 sessionId, euint32 encryptedSeller) internal {
+        require(sessions[sessionId].timestamp > 0, "Session does not exist");
+        require(sessions[sessionId].seller == address(0), "Session already joined");
+        SessionState state = currentState(sessions[sessionId]);
+        require(state != SessionState.Expired, "Session expired");
+        require(state == SessionState.Open, "Session not open");
+        require(
+            !sessions[sessionId].inviteOnly || invitedSellers[sessionId][msg.sender],
+            "Not invited to this session"
+        );
         require(FHE.isInitialized(encryptedSeller), "Invalid seller encryption");
 
         sessions[sessionId].seller = msg.sender;
         sessions[sessionId].encryptedSellerPrice = encryptedSeller;
-        sessions[sessionId].publicSellerPrice = publicSellerPrice;
+        sessions[sessionId].state = SessionState.Joined;
 
         FHE.allowThis(encryptedSeller);
+        FHE.allow(encryptedSeller, msg.sender);
 
         emit SessionCreated(sessionId, sessions[sessionId].buyer, msg.sender);
+        emit SessionStateChanged(sessionId, SessionState.Joined);
+
+        computeMatch(sessionId);
+    }
+
+    function computeMatch(bytes32 sessionId) internal {
+        BargainSession storage session = sessions[sessionId];
+
+        // Without a match the settlement is forced to zero so it reveals nothing beyond the verdict.
+        ebool matchResult = FHE.ge(session.encryptedBuyerPrice, session.encryptedSellerPrice);
+        euint64 settlement = FHE.select(matchResult, computeSettlementPrice(session), FHE.asEuint64(0));
+
+        FHE.allowThis(matchResult);
+        FHE.allowThis(settlement);
+        FHE.allow(matchResult, session.buyer);
+        FHE.allow(matchResult, session.seller);
+        FHE.allow(settlement, session.buyer);
+        FHE.allow(settlement, session.seller);
+        session.encryptedMatch = matchResult;
+        session.encryptedSettlementPrice = settlement;
+
+        emit MatchComputed(sessionId, session.round, FHE.toBytes32(matchResult), FHE.toBytes32(settlement));
+    }
+
+    function computeSettlementPrice(BargainSession storage session) internal returns (euint64) {
+        euint64 bid = FHE.asEuint64(session.encryptedBuyerPrice);
+        euint64 ask = FHE.asEuint64(session.encryptedSellerPrice);
+
+        if (session.settlementPolicy == SettlementPolicy.SellerAsk) {
+            return ask;
+        }
+        if (session.settlementPolicy == SettlementPolicy.BuyerBid) {
+            return bid;
+        }
+        if (session.settlementPolicy == SettlementPolicy.Midpoint) {
+            return FHE.div(FHE.add(bid, ask), 2);
+        }
+
+        // Weighted: bidWeightPercent of the price comes from the bid, the rest from the ask
+        uint64 bidWeight = session.bidWeightPercent;
+        return FHE.div(FHE.add(FHE.mul(bid, bidWeight), FHE.mul(ask, 100 - bidWeight)), 100);
+    }
+
+    /// @notice Opens the encrypted verdict and settlement price to public decryption.
+    function requestMatchReveal(bytes32 sessionId) external {
+        BargainSession storage session = sessions[sessionId];
+        require(session.timestamp > 0, "Session does not exist");
+        require(msg.sender == session.buyer || msg.sender == session.seller, "Only participants can request reveal");
+
+        SessionState state = currentState(session);
+        require(state != SessionState.Expired, "Session expired");
+        require(state == SessionState.Joined, "Match not awaiting reveal");
+
+        // Only the encrypted verdict and settlement are opened to the KMS; bid and ask stay private.
+        FHE.makePubliclyDecryptable(session.encryptedMatch);
+        FHE.makePubliclyDecryptable(session.encryptedSettlementPrice);
+        session.state = SessionState.Revealing;
+
+        emit SessionStateChanged(sessionId, SessionState.Revealing);
+    }
+
+    function resolveMatch(
+        bytes32 sessionId,
+        bytes memory abiEncodedClearValue,
+        bytes memory decryptionProof
+    ) external {
+        require(sessions[sessionId].timestamp > 0, "Session does not exist");
+        require(sessions[sessionId].seller != address(0), "Session not joined");
+
+        SessionState state = currentState(sessions[sessionId]);
+        require(state != SessionState.Matched && state != SessionState.NoDeal, "Match already resolved");
+        require(state != SessionState.Expired, "Session expired");
+        require(state == SessionState.Revealing, "Match reveal not requested");
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(sessions[sessionId].encryptedMatch);
+        cts[1] = FHE.toBytes32(sessions[sessionId].encryptedSettlementPrice);
+
+        FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
+
+        (bool matched, uint64 settlementPrice) = abi.decode(abiEncodedClearValue, (bool, uint64));
+        checkDeal(sessionId, matched, settlementPrice);
+    }
+
+    /// @notice Replaces the caller's encrypted price after a no-match round. Once both sides have
+    /// countered, the next round starts and the overlap is re-evaluated under FHE.
+    function submitCounterOffer(
+        bytes32 sessionId,
+        externalEuint32 encryptedPrice,
+        bytes calldata proof
+    ) external {
+        BargainSession storage session = sessions[sessionId];
+        require(session.timestamp > 0, "Session does not exist");
+
+        SessionState state = currentState(session);
+        require(state != SessionState.Expired, "Session expired");
+        require(state == SessionState.Countering, "Not accepting counter-offers");
+
+        euint32 offer = FHE.fromExternal(encryptedPrice, proof);
+        require(FHE.isInitialized(offer), "Invalid offer encryption");
+
+        if (msg.sender == session.buyer) {
+            require(!session.buyerCountered, "Counter-offer already submitted");
+            session.buyerCountered = true;
+            session.encryptedBuyerPrice = offer;
+        } else if (msg.sender == session.seller) {
+            require(!session.sellerCountered, "Counter-offer already submitted");
+            session.sellerCountered = true;
+            session.encryptedSellerPrice = offer;
+        } else {
+            revert("Only participants can counter");
+        }
+
+        FHE.allowThis(offer);
+        FHE.allow(offer, msg.sender);
+
+        emit CounterOfferSubmitted(sessionId, session.round, msg.sender);
+
+        if (session.buyerCountered && session.sellerCountered) {
+            session.round += 1;
+            session.buyerCountered = false;
+            session.sellerCountered = false;
+            session.state = SessionState.Joined;
+
+            emit SessionStateChanged(sessionId, SessionState.Joined);
+
+            computeMatch(sessionId);
+        }
+    }
+
+    /// @notice Opens the caller's own price to public decryption once the deal has matched.
+    function requestReveal(bytes32 sessionId) external {
+        BargainSession storage session = sessions[sessionId];
+        require(session.timestamp > 0, "Session does not exist");
+        require(!session.privateMode, "Private session");
+        require(session.state == SessionState.Matched, "No matched deal");
+
+        euint32 handle;
+        if (msg.sender == session.buyer) {
+            require(!session.buyerRevealRequested, "Reveal already requested");
+            session.buyerRevealRequested = true;
+            handle = session.encryptedBuyerPrice;
+        } else if (msg.sender == session.seller) {
+            require(!session.sellerRevealRequested, "Reveal already requested");
+            session.sellerRevealRequested = true;
+            handle = session.encryptedSellerPrice;
+        } else {
+            revert("Only participants can request reveal");
+        }
+
+        FHE.makePubliclyDecryptable(handle);
+
+        emit RevealRequested(sessionId, msg.sender, FHE.toBytes32(handle));
     }
 
     function revealBuyerPrice(
@@ -93,6 +394,9 @@ contract BargainFHE is ZamaEthereumConfig {
     ) external {
         require(sessions[sessionId].timestamp > 0, "Session does not exist");
         require(msg.sender == sessions[sessionId].buyer, "Only buyer can reveal");
+        require(!sessions[sessionId].privateMode, "Private session");
+        require(sessions[sessionId].state == SessionState.Matched, "No matched deal");
+        require(sessions[sessionId].buyerRevealRequested, "Reveal not requested");
         require(!sessions[sessionId].buyerRevealed, "Buyer already revealed");
 
         bytes32[] memory cts = new bytes32[](1);
@@ -105,10 +409,6 @@ contract BargainFHE is ZamaEthereumConfig {
         sessions[sessionId].buyerRevealed = true;
 
         emit PriceRevealed(sessionId, msg.sender, revealedPrice);
-
-        if (sessions[sessionId].sellerRevealed) {
-            checkDeal(sessionId);
-        }
     }
 
     function revealSellerPrice(
@@ -118,6 +418,9 @@ contract BargainFHE is ZamaEthereumConfig {
     ) external {
         require(sessions[sessionId].timestamp > 0, "Session does not exist");
         require(msg.sender == sessions[sessionId].seller, "Only seller can reveal");
+        require(!sessions[sessionId].privateMode, "Private session");
+        require(sessions[sessionId].state == SessionState.Matched, "No matched deal");
+        require(sessions[sessionId].sellerRevealRequested, "Reveal not requested");
         require(!sessions[sessionId].sellerRevealed, "Seller already revealed");
 
         bytes32[] memory cts = new bytes32[](1);
@@ -130,17 +433,59 @@ contract BargainFHE is ZamaEthereumConfig {
         sessions[sessionId].sellerRevealed = true;
 
         emit PriceRevealed(sessionId, msg.sender, revealedPrice);
+    }
+
+    /// @notice Lets the buyer withdraw a session that no seller has joined yet.
+    function cancelSession(bytes32 sessionId) external {
+        BargainSession storage session = sessions[sessionId];
+        require(session.timestamp > 0, "Session does not exist");
+        require(msg.sender == session.buyer, "Only buyer can cancel");
+        require(currentState(session) == SessionState.Open, "Only open sessions can be cancelled");
+
+        session.state = SessionState.Cancelled;
 
-        if (sessions[sessionId].buyerRevealed) {
-            checkDeal(sessionId);
+        emit SessionCancelled(sessionId);
+        emit SessionStateChanged(sessionId, SessionState.Cancelled);
+    }
+
+    /// @notice Records the expiry of a session whose deadline passed before it was resolved.
+    function expireSession(bytes32 sessionId) external {
+        BargainSession storage session = sessions[sessionId];
+        require(session.timestamp > 0, "Session does not exist");
+        require(session.state != SessionState.Expired, "Session already expired");
+        require(currentState(session) == SessionState.Expired, "Session not expired");
+
+        session.state = SessionState.Expired;
+
+        emit SessionExpired(sessionId);
+        emit SessionStateChanged(sessionId, SessionState.Expired);
+    }
+
+    function checkDeal(bytes32 sessionId, bool matched, uint256 settlementPrice) internal {
+        BargainSession storage session = sessions[sessionId];
+        if (matched) {
+            session.state = SessionState.Matched;
+            session.settlementPrice = settlementPrice;
+            emit DealMatched(sessionId, session.round, settlementPrice);
+        } else {
+            // Rounds left: both sides may counter; the verdicts of earlier rounds reveal nothing else
+            session.state = session.round < session.maxRounds ? SessionState.Countering : SessionState.NoDeal;
+            emit NoDeal(sessionId, session.round);
         }
+        emit SessionStateChanged(sessionId, session.state);
     }
 
-    function checkDeal(bytes32 sessionId) internal {
-        if (sessions[sessionId].publicBuyerPrice >= sessions[sessionId].publicSellerPrice) {
-            sessions[sessionId].dealMatched = true;
-            emit DealMatched(sessionId, sessions[sessionId].publicSellerPrice);
+    /// @dev Sessions still waiting for a seller, a match reveal request or counter-offers count as expired
+    /// past their deadline, whether or not expireSession has been called. Revealing sessions never expire:
+    /// their verdict and settlement are already publicly decryptable, so resolveMatch must stay open.
+    function currentState(BargainSession storage session) internal view returns (SessionState) {
+        bool pending = session.state == SessionState.Open ||
+            session.state == SessionState.Joined ||
+            session.state == SessionState.Countering;
+        if (pending && block.timestamp > session.deadline) {
+            return SessionState.Expired;
         }
+        return session.state;
     }
 
     function getEncryptedPrices(bytes32 sessionId) external view returns (euint32, euint32) {
@@ -148,6 +493,16 @@ contract BargainFHE is ZamaEthereumConfig {
         return (sessions[sessionId].encryptedBuyerPrice, sessions[sessionId].encryptedSellerPrice);
     }
 
+    function getEncryptedMatch(bytes32 sessionId) external view returns (ebool) {
+        require(sessions[sessionId].timestamp > 0, "Session does not exist");
+        return sessions[sessionId].encryptedMatch;
+    }
+
+    function getEncryptedSettlementPrice(bytes32 sessionId) external view returns (euint64) {
+        require(sessions[sessionId].timestamp > 0, "Session does not exist");
+        return sessions[sessionId].encryptedSettlementPrice;
+    }
+
     function getSession(bytes32 sessionId) external view returns (
         address buyer,
         address seller,
@@ -155,8 +510,14 @@ contract BargainFHE is ZamaEthereumConfig {
         uint256 publicSellerPrice,
         bool buyerRevealed,
         bool sellerRevealed,
-        bool dealMatched,
-        uint256 timestamp
+        SessionState state,
+        SettlementPolicy settlementPolicy,
+        uint8 bidWeightPercent,
+        uint256 settlementPrice,
+        bool privateMode,
+        uint256 timestamp,
+        uint256 deadline,
+        bool inviteOnly
     ) {
         require(sessions[sessionId].timestamp > 0, "Session does not exist");
         BargainSession storage session = sessions[sessionId];
@@ -167,11 +528,41 @@ contract BargainFHE is ZamaEthereumConfig {
             session.publicSellerPrice,
             session.buyerRevealed,
             session.sellerRevealed,
-            session.dealMatched,
-            session.timestamp
+            currentState(session),
+            session.settlementPolicy,
+            session.bidWeightPercent,
+            session.settlementPrice,
+            session.privateMode,
+            session.timestamp,
+            session.deadline,
+            session.inviteOnly
         );
     }
 
+    /// @notice Whether `account` may join the session as its seller right now.
+    function canJoin(bytes32 sessionId, address account) external view returns (bool) {
+        BargainSession storage session = sessions[sessionId];
+        return session.timestamp > 0 &&
+            currentState(session) == SessionState.Open &&
+            (!session.inviteOnly || invitedSellers[sessionId][account]);
+    }
+
+    function getRoundInfo(bytes32 sessionId) external view returns (
+        uint8 round,
+        uint8 maxRounds,
+        bool buyerCountered,
+        bool sellerCountered
+    ) {
+        require(sessions[sessionId].timestamp > 0, "Session does not exist");
+        BargainSession storage session = sessions[sessionId];
+        return (session.round, session.maxRounds, session.buyerCountered, session.sellerCountered);
+    }
+
+    function getSessionState(bytes32 sessionId) external view returns (SessionState) {
+        require(sessions[sessionId].timestamp > 0, "Session does not exist");
+        return currentState(sessions[sessionId]);
+    }
+
     function getAllSessionIds() external view returns (bytes32[] memory) {
         return sessionIds;
     }
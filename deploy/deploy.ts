@@ -334,12 +334,12 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
+    const BargainFHEFactory = await hardhatEthers.getContractFactory("BargainFHE", wallet);
+    const factory = await BargainFHEFactory.deploy();
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    console.log("BargainFHE contract deployed at:", deployedAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -375,16 +375,16 @@ async function main() {
           "..",
           "artifacts",
           "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
+          "Bargain_FHE.sol",
+          "BargainFHE.json"
         );
         const targetAbiPath = path.join(frontendConfigDir, "abi");
         if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "BargainFHE.json"));
+        console.log("Copied ABI to frontend/web/src/abi/BargainFHE.json");
       } catch (e) {
         console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
+          "Failed to copy ABI automatically. Please copy artifacts/contracts/Bargain_FHE.sol/BargainFHE.json manually to frontend/web/src/abi/BargainFHE.json",
           e
         );
       }
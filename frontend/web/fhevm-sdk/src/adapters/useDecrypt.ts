@@ -3,11 +3,12 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { publicDecryptV09, revealAndVerify, RevealAndVerifyOptions, FhevmErrorCode, getFhevmErrorCode } from '../core/index.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
@@ -16,6 +17,7 @@ export function useDecrypt() {
   ) => {
     setIsDecrypting(true);
     setError('');
+    setErrorCode(null);
     
     try {
       const decryptionResult = await publicDecryptV09(handles);
@@ -33,6 +35,23 @@ export function useDecrypt() {
       };
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Decryption verification failed');
+      setErrorCode(getFhevmErrorCode(err) ?? null);
+      throw err;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, []);
+
+  const requestAndVerifyDecryption = useCallback(async (options: RevealAndVerifyOptions) => {
+    setIsDecrypting(true);
+    setError('');
+    setErrorCode(null);
+
+    try {
+      return await revealAndVerify(options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Decryption verification failed');
+      setErrorCode(getFhevmErrorCode(err) ?? null);
       throw err;
     } finally {
       setIsDecrypting(false);
@@ -41,8 +60,10 @@ export function useDecrypt() {
 
   return {
     verifyDecryption,
+    requestAndVerifyDecryption,
     isDecrypting,
     error,
+    errorCode,
   };
 }
 
@@ -0,0 +1,73 @@
+/**
+ * Hook for one user-decrypted value, served from the SDK cache when already known
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  decryptValue,
+  getCachedDecryptedValue,
+  getDecryptedValueCache,
+  getDefaultFhevmClient,
+  loadCachedDecryptedValue,
+  FhevmErrorCode,
+  FhevmSigner,
+  TypedClearValue,
+  getFhevmErrorCode,
+} from '../core/index.js';
+
+export function useDecryptedValue(handle?: string | null, contractAddress?: string | null, account?: string | null) {
+  const peek = useCallback(() => {
+    if (!handle || !contractAddress || !account) return undefined;
+    return getCachedDecryptedValue(handle, contractAddress, account);
+  }, [handle, contractAddress, account]);
+
+  const [value, setValue] = useState<TypedClearValue | undefined>(peek);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
+
+  // Known values show instantly; values decrypted elsewhere (or dropped on revocation) update here
+  useEffect(() => {
+    setValue(peek());
+    return getDecryptedValueCache().subscribe(() => setValue(peek()));
+  }, [peek]);
+
+  // Once the ACL can be asked: drop a revoked value, or load one persisted by an earlier session.
+  // Read during render so the check runs when initialization finishes.
+  const isInitialized = getDefaultFhevmClient().isInitialized;
+  useEffect(() => {
+    if (!handle || !contractAddress || !account || !isInitialized) return;
+    loadCachedDecryptedValue(handle, contractAddress, account)
+      .catch(err => console.warn('⚠️ Could not read cached decrypted value:', err));
+  }, [handle, contractAddress, account, isInitialized]);
+
+  const decrypt = useCallback(async (signer: FhevmSigner) => {
+    if (!handle || !contractAddress) {
+      throw new Error('Nothing to decrypt: handle and contract address are required');
+    }
+
+    setIsDecrypting(true);
+    setError('');
+    setErrorCode(null);
+
+    try {
+      const clear = await decryptValue(handle, contractAddress, signer);
+      setValue(clear);
+      return clear;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Decryption failed');
+      setErrorCode(getFhevmErrorCode(err) ?? null);
+      throw err;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [handle, contractAddress]);
+
+  return {
+    value,
+    decrypt,
+    isDecrypting,
+    error,
+    errorCode,
+  };
+}
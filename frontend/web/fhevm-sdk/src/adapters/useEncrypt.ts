@@ -2,33 +2,67 @@
  * Wagmi-like hook for encryption operations
  */
 
-import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { useState, useCallback, useRef } from 'react';
+import {
+  createEncryptedInput,
+  encryptInputs as encryptInputsCore,
+  EncryptOptions,
+  EncryptedInputSpec,
+  EncryptionStage,
+  FhevmErrorCode,
+  getFhevmErrorCode,
+} from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
+  const [progress, setProgress] = useState<EncryptionStage | null>(null);
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
+  const controller = useRef<AbortController | null>(null);
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const run = useCallback(async <T,>(operation: (options: EncryptOptions) => Promise<T>) => {
+    const current = new AbortController();
+    controller.current = current;
     setIsEncrypting(true);
+    setProgress(null);
     setError('');
-    
+    setErrorCode(null);
+
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
-      return result;
+      return await operation({ signal: current.signal, onProgress: ({ stage }) => setProgress(stage) });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Encryption failed');
+      setErrorCode(getFhevmErrorCode(err) ?? null);
       throw err;
     } finally {
+      if (controller.current === current) controller.current = null;
       setIsEncrypting(false);
+      setProgress(null);
     }
   }, []);
 
+  const encrypt = useCallback((contractAddress: string, userAddress: string, value: number) => {
+    return run(options => createEncryptedInput(contractAddress, userAddress, value, options));
+  }, [run]);
+
+  const encryptInputs = useCallback((contractAddress: string, userAddress: string, specs: EncryptedInputSpec[]) => {
+    return run(options => encryptInputsCore(contractAddress, userAddress, specs, options));
+  }, [run]);
+
+  /**
+   * Abort the running encryption; it rejects with a CANCELLED error
+   */
+  const cancel = useCallback(() => {
+    controller.current?.abort();
+  }, []);
+
   return {
     encrypt,
+    encryptInputs,
+    cancel,
     isEncrypting,
+    progress,
     error,
+    errorCode,
   };
 }
-
-
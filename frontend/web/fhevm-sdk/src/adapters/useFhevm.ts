@@ -3,33 +3,60 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { initializeFheInstance, InitializeFheInstanceOptions, FhevmInstance, FhevmErrorCode, getFhevmErrorCode } from '../core/index.js';
 
-export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
+/**
+ * Every option initialize() reads, keyed by name so a new option fails to compile until it is listed here
+ */
+function optionDependencies(options: InitializeFheInstanceOptions = {}) {
+  const dependencies: Record<keyof InitializeFheInstanceOptions, unknown> = {
+    network: options.network,
+    provider: options.provider,
+    rpcUrl: options.rpcUrl,
+    signer: options.signer,
+    authorizations: options.authorizations,
+    mock: options.mock,
+    queue: options.queue,
+    cache: options.cache,
+    aclPreflight: options.aclPreflight,
+    worker: options.worker,
+    logger: options.logger,
+  };
+  return Object.values(dependencies);
+}
+
+/**
+ * `initialize` changes when any option does; object options (queue, worker, cache...) should keep their identity across renders
+ */
+export function useFhevm(options?: InitializeFheInstanceOptions) {
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
 
   const initialize = useCallback(async () => {
     setStatus('loading');
     setError('');
+    setErrorCode(null);
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance(options);
       setInstance(fheInstance);
       setStatus('ready');
       console.log('✅ FHEVM initialized');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
+      setErrorCode(getFhevmErrorCode(err) ?? null);
       setStatus('error');
       console.error('❌ FHEVM initialization failed:', err);
     }
-  }, []);
+  }, optionDependencies(options));
 
   return {
     instance,
     status,
     error,
+    errorCode,
     initialize,
     isInitialized: status === 'ready',
   };
@@ -0,0 +1,73 @@
+/**
+ * ACL pre-flight checks
+ * Asks the ACL contract who may decrypt a handle, so refusals surface before a wallet prompt or relayer round trip
+ */
+
+import { ethers } from "ethers";
+
+import { normalizeHandle } from "./handles.js";
+import { HandleContractPair } from "./types.js";
+import { AclDeniedError } from "./errors.js";
+
+/** The view functions of the fhevm `IACL` interface used here */
+const ACL_ABI = [
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+];
+
+export class FhevmAcl {
+  private readonly contract: ethers.Contract;
+
+  constructor(aclAddress: string, provider: ethers.ContractRunner) {
+    this.contract = new ethers.Contract(aclAddress, ACL_ABI, provider);
+  }
+
+  /**
+   * Whether the account (a user or a contract) has been granted the handle
+   */
+  async isAllowed(handle: string | Uint8Array, account: string): Promise<boolean> {
+    return this.contract.isAllowed(normalizeHandle(handle), account);
+  }
+
+  /**
+   * Whether the handle was made publicly decryptable
+   */
+  async isAllowedForDecryption(handle: string | Uint8Array): Promise<boolean> {
+    return this.contract.isAllowedForDecryption(normalizeHandle(handle));
+  }
+
+  /**
+   * User decryption needs both the user and the contract the handle is read through to be allowed
+   */
+  async canUserDecrypt(handle: string | Uint8Array, userAddress: string, contractAddress?: string): Promise<boolean> {
+    const [userAllowed, contractAllowed] = await Promise.all([
+      this.isAllowed(handle, userAddress),
+      contractAddress ? this.isAllowed(handle, contractAddress) : true,
+    ]);
+    return userAllowed && contractAllowed;
+  }
+
+  /**
+   * Throws an AclDeniedError naming every handle the user may not decrypt
+   */
+  async assertUserDecryptAllowed(pairs: HandleContractPair[], userAddress: string) {
+    const allowed = await Promise.all(
+      pairs.map(({ handle, contractAddress }) => this.canUserDecrypt(handle, userAddress, contractAddress))
+    );
+    const denied = pairs.filter((_, index) => !allowed[index]).map(({ handle }) => normalizeHandle(handle));
+    if (denied.length > 0) {
+      throw new AclDeniedError(`${userAddress} is not allowed to decrypt ${denied.join(', ')}`);
+    }
+  }
+
+  /**
+   * Throws an AclDeniedError naming every handle that is not publicly decryptable
+   */
+  async assertPublicDecryptAllowed(handles: string[]) {
+    const allowed = await Promise.all(handles.map(handle => this.isAllowedForDecryption(handle)));
+    const denied = handles.filter((_, index) => !allowed[index]).map(handle => normalizeHandle(handle));
+    if (denied.length > 0) {
+      throw new AclDeniedError(`Not allowed for public decryption: ${denied.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Reusable EIP-712 user-decryption authorizations
+ * One keypair and wallet signature per (chain, user, contract set), kept until it expires
+ */
+
+import { ethers } from "ethers";
+
+import { KeyValueStore, createPersistentStore } from "./storage.js";
+import { FhevmInstance, FhevmLogger, FhevmSigner } from "./types.js";
+
+export interface DecryptionAuthorization {
+  chainId: number;
+  userAddress: string;
+  /** Checksummed and sorted */
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  /** Unix time (seconds) the signature is valid from */
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface DecryptionAuthorizationOptions {
+  /**
+   * Where authorizations, private keys included, are kept. Defaults to IndexedDB encrypted under a non-extractable key
+   * in the browser, an owner-only file in ~/.fhevm-sdk in Node.js, memory elsewhere.
+   */
+  store?: KeyValueStore<DecryptionAuthorization>;
+  /** How long a signature stays valid, 1 to 365 days (default 10) */
+  durationDays?: number;
+  /** Sign a new authorization this long before the current one expires (default 5 minutes) */
+  renewBeforeSeconds?: number;
+  /** Notes each new signature request; a client passes its own logger to the manager it creates */
+  logger?: FhevmLogger;
+}
+
+export const DEFAULT_AUTHORIZATION_DURATION_DAYS = 10;
+export const MAX_AUTHORIZATION_DURATION_DAYS = 365;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+function normalizeContracts(contractAddresses: string[]) {
+  return [...new Set(contractAddresses.map(address => ethers.getAddress(address)))].sort();
+}
+
+export function authorizationKey(chainId: number, userAddress: string, contractAddresses: string[]) {
+  return [chainId, ethers.getAddress(userAddress), ...normalizeContracts(contractAddresses)].join(':');
+}
+
+export function authorizationExpiresAt(authorization: DecryptionAuthorization) {
+  return authorization.startTimestamp + authorization.durationDays * SECONDS_PER_DAY;
+}
+
+export function isAuthorizationValid(authorization: DecryptionAuthorization, marginSeconds = 0, now = Date.now()) {
+  return authorizationExpiresAt(authorization) - marginSeconds > Math.floor(now / 1000);
+}
+
+export class DecryptionAuthorizationManager {
+  private readonly durationDays: number;
+  private readonly renewBeforeSeconds: number;
+  private readonly logger?: FhevmLogger;
+  private store: Promise<KeyValueStore<DecryptionAuthorization>> | null;
+  /** Signature requests in flight, so parallel decryptions prompt the wallet once */
+  private readonly pending = new Map<string, Promise<DecryptionAuthorization>>();
+
+  constructor(options: DecryptionAuthorizationOptions = {}) {
+    this.durationDays = options.durationDays ?? DEFAULT_AUTHORIZATION_DURATION_DAYS;
+    this.renewBeforeSeconds = options.renewBeforeSeconds ?? 5 * 60;
+    this.logger = options.logger;
+    this.store = options.store ? Promise.resolve(options.store) : null;
+
+    if (!Number.isInteger(this.durationDays) || this.durationDays < 1 || this.durationDays > MAX_AUTHORIZATION_DURATION_DAYS) {
+      throw new Error(`durationDays must be an integer between 1 and ${MAX_AUTHORIZATION_DURATION_DAYS}`);
+    }
+  }
+
+  /**
+   * Stored authorization for the contract set if still valid, otherwise a freshly signed one.
+   * New keypairs come from `generateKeypair` when given (e.g. an encryption worker), else from the instance.
+   */
+  async getAuthorization(
+    instance: FhevmInstance,
+    chainId: number,
+    signer: FhevmSigner,
+    contractAddresses: string[],
+    generateKeypair?: () => Promise<{ publicKey: string; privateKey: string }>
+  ): Promise<DecryptionAuthorization> {
+    const userAddress = ethers.getAddress(await signer.getAddress());
+    const key = authorizationKey(chainId, userAddress, contractAddresses);
+
+    const existing = this.pending.get(key);
+    if (existing) return existing;
+
+    const request = this.loadOrSign(key, instance, chainId, signer, userAddress, normalizeContracts(contractAddresses), generateKeypair)
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Forget the authorization for a contract set. The signature itself stays valid until it expires,
+   * but without the stored private key it can no longer decrypt anything.
+   */
+  async revoke(chainId: number, userAddress: string, contractAddresses: string[]) {
+    await (await this.getStore()).delete(authorizationKey(chainId, userAddress, contractAddresses));
+  }
+
+  /**
+   * Forget every stored authorization, or only those of one user
+   */
+  async clear(userAddress?: string) {
+    const store = await this.getStore();
+    if (!userAddress) {
+      await store.clear();
+      return;
+    }
+    const user = ethers.getAddress(userAddress);
+    const keys = await store.keys();
+    await Promise.all(keys.filter(key => key.split(':')[1] === user).map(key => store.delete(key)));
+  }
+
+  private async loadOrSign(
+    key: string,
+    instance: FhevmInstance,
+    chainId: number,
+    signer: FhevmSigner,
+    userAddress: string,
+    contractAddresses: string[],
+    generateKeypair?: () => Promise<{ publicKey: string; privateKey: string }>
+  ) {
+    const store = await this.getStore();
+    // Storage is an optimization: when it is unavailable (private browsing, read-only home), just sign again
+    const stored = await store.get(key).catch(err => {
+      console.warn('⚠️ Could not read stored decryption authorization:', err);
+      return undefined;
+    });
+    if (stored && isAuthorizationValid(stored, this.renewBeforeSeconds)) {
+      return stored;
+    }
+
+    this.logger?.debug('✍️ Requesting a new decryption authorization for', contractAddresses);
+
+    const keypair = generateKeypair ? await generateKeypair() : instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, this.durationDays);
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    const authorization: DecryptionAuthorization = {
+      chainId,
+      userAddress,
+      contractAddresses,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature,
+      startTimestamp,
+      durationDays: this.durationDays,
+    };
+    await store.set(key, authorization).catch(err => {
+      console.warn('⚠️ Could not store decryption authorization:', err);
+    });
+    return authorization;
+  }
+
+  private getStore() {
+    if (!this.store) {
+      this.store = createPersistentStore<DecryptionAuthorization>('decryption-authorizations');
+    }
+    return this.store;
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * BargainFHE Session Flows - Universal SDK
+ * Client-side steps of the encrypted bargaining protocol
+ */
+
+import { ethers } from 'ethers';
+import { revealAndVerify } from './fhevm.js';
+import { EncryptedParam } from './types.js';
+import { TransactionFailedError } from './errors.js';
+
+/**
+ * How the settlement price is derived from the encrypted bid and ask.
+ * Values mirror the BargainFHE.SettlementPolicy enum.
+ */
+export enum SettlementPolicy {
+  Midpoint = 0,
+  SellerAsk = 1,
+  BuyerBid = 2,
+  Weighted = 3,
+}
+
+export const SETTLEMENT_POLICY_LABELS: Record<SettlementPolicy, string> = {
+  [SettlementPolicy.Midpoint]: 'Midpoint (bid + ask) / 2',
+  [SettlementPolicy.SellerAsk]: "Seller's ask",
+  [SettlementPolicy.BuyerBid]: "Buyer's bid",
+  [SettlementPolicy.Weighted]: 'Weighted split',
+};
+
+/**
+ * Lifecycle of a session. Values mirror the BargainFHE.SessionState enum.
+ */
+export enum SessionState {
+  Open = 0,
+  Joined = 1,
+  Revealing = 2,
+  Matched = 3,
+  NoDeal = 4,
+  Expired = 5,
+  Cancelled = 6,
+  Countering = 7,
+}
+
+export const SESSION_STATE_LABELS: Record<SessionState, string> = {
+  [SessionState.Open]: 'Waiting for seller',
+  [SessionState.Joined]: 'Awaiting match check',
+  [SessionState.Revealing]: 'Revealing match',
+  [SessionState.Matched]: 'Deal matched',
+  [SessionState.NoDeal]: 'No deal',
+  [SessionState.Expired]: 'Expired',
+  [SessionState.Cancelled]: 'Cancelled',
+  [SessionState.Countering]: 'Awaiting counter-offers',
+};
+
+/** Default time a new session stays open for a seller and the match reveal */
+export const DEFAULT_SESSION_DURATION_SECONDS = 24 * 60 * 60;
+
+/**
+ * Whether a session still waits on a seller, a match reveal or counter-offers
+ */
+export function isSessionPending(state: SessionState) {
+  return state === SessionState.Open
+    || state === SessionState.Joined
+    || state === SessionState.Revealing
+    || state === SessionState.Countering;
+}
+
+/**
+ * Whether a session expires once its deadline passes. Revealing sessions never do: their verdict and
+ * settlement are already publicly decryptable, so resolveMatch stays open after the deadline.
+ */
+export function canSessionExpire(state: SessionState) {
+  return isSessionPending(state) && state !== SessionState.Revealing;
+}
+
+/**
+ * Whether a session ended without a result (expired or cancelled)
+ */
+export function isSessionDead(state: SessionState) {
+  return state === SessionState.Expired || state === SessionState.Cancelled;
+}
+
+/**
+ * State of a session at `nowSeconds`, treating sessions that can expire as expired past their deadline.
+ * Lets a UI expire sessions between chain reads, matching the contract's getSessionState.
+ */
+export function effectiveSessionState(state: SessionState, deadline: number | bigint, nowSeconds = Math.floor(Date.now() / 1000)) {
+  return canSessionExpire(state) && nowSeconds > Number(deadline) ? SessionState.Expired : state;
+}
+
+/**
+ * Time left until a session deadline, with a short label such as "2h 05m" or "45s"
+ */
+export function getSessionCountdown(deadline: number | bigint, nowSeconds = Math.floor(Date.now() / 1000)) {
+  const secondsLeft = Math.max(0, Number(deadline) - nowSeconds);
+
+  const days = Math.floor(secondsLeft / 86400);
+  const hours = Math.floor((secondsLeft % 86400) / 3600);
+  const minutes = Math.floor((secondsLeft % 3600) / 60);
+  const seconds = secondsLeft % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  let label: string;
+  if (secondsLeft === 0) label = 'expired';
+  else if (days > 0) label = `${days}d ${hours}h`;
+  else if (hours > 0) label = `${hours}h ${pad(minutes)}m`;
+  else if (minutes > 0) label = `${minutes}m ${pad(seconds)}s`;
+  else label = `${seconds}s`;
+
+  return { secondsLeft, expired: secondsLeft === 0, label };
+}
+
+export interface CreateSessionOptions {
+  policy?: SettlementPolicy;
+  /** Weight of the bid in the settlement price (0-100), used by the Weighted policy */
+  bidWeightPercent?: number;
+  /** Number of bid/ask rounds before a no-match is final (default 1) */
+  maxRounds?: number;
+  /** Sellers allowed to join; empty or omitted keeps the session open to anyone */
+  invitedSellers?: string[];
+  /** Unix time (seconds) after which the session expires; overrides durationSeconds */
+  deadline?: number;
+  /** Session lifetime from now, defaults to DEFAULT_SESSION_DURATION_SECONDS */
+  durationSeconds?: number;
+  /** Privacy mode (default): no cleartext price is sent alongside the ciphertext */
+  privateMode?: boolean;
+  /** Legacy sessions only: ask placeholder that the seller's ask replaces on join */
+  encryptedAsk?: EncryptedParam;
+  /** Legacy sessions only: cleartext prices, readable by anyone from calldata */
+  publicBuyerPrice?: ethers.BigNumberish;
+  publicSellerPrice?: ethers.BigNumberish;
+  /** Explicit opt-in to sending non-zero cleartext prices */
+  allowCleartextPrices?: boolean;
+}
+
+export interface JoinSessionOptions {
+  publicSellerPrice?: ethers.BigNumberish;
+  allowCleartextPrices?: boolean;
+}
+
+/**
+ * Refuse to send a non-zero cleartext price next to its ciphertext unless explicitly allowed
+ */
+export function assertNoCleartextPrices(
+  prices: Record<string, ethers.BigNumberish | undefined>,
+  allowCleartextPrices = false
+) {
+  const leaking = Object.entries(prices)
+    .filter(([, value]) => value !== undefined && BigInt(value) !== 0n)
+    .map(([name]) => name);
+
+  if (leaking.length === 0) return;
+
+  const message = `Cleartext ${leaking.join(', ')} would be published in calldata next to the encrypted price.`;
+  if (!allowCleartextPrices) {
+    throw new Error(`${message} Use a private session, or pass allowCleartextPrices: true to send it anyway.`);
+  }
+  console.warn(`⚠️ ${message}`);
+}
+
+/**
+ * Create a bargaining session with an encrypted bid and the chosen settlement policy.
+ * Uses privacy mode unless `privateMode: false` is passed.
+ */
+export async function createBargainSession(
+  contract: ethers.Contract,
+  encryptedBid: EncryptedParam,
+  options: CreateSessionOptions = {}
+) {
+  const policy = options.policy ?? SettlementPolicy.Midpoint;
+  const bidWeightPercent = policy === SettlementPolicy.Weighted ? options.bidWeightPercent ?? 50 : 0;
+  const privateMode = options.privateMode ?? true;
+  const maxRounds = options.maxRounds ?? 1;
+
+  if (!Number.isInteger(bidWeightPercent) || bidWeightPercent < 0 || bidWeightPercent > 100) {
+    throw new Error('bidWeightPercent must be an integer between 0 and 100');
+  }
+  if (!Number.isInteger(maxRounds) || maxRounds < 1 || maxRounds > 255) {
+    throw new Error('maxRounds must be an integer between 1 and 255');
+  }
+
+  const invalidInvites = (options.invitedSellers ?? []).filter(address => !ethers.isAddress(address));
+  if (invalidInvites.length > 0) {
+    throw new Error(`Invalid invited seller address: ${invalidInvites.join(', ')}`);
+  }
+  const invitedSellers = [...new Set((options.invitedSellers ?? []).map(address => ethers.getAddress(address)))];
+
+  const deadline = options.deadline
+    ?? Math.floor(Date.now() / 1000) + (options.durationSeconds ?? DEFAULT_SESSION_DURATION_SECONDS);
+  if (deadline <= Math.floor(Date.now() / 1000)) {
+    throw new Error('Session deadline must be in the future');
+  }
+
+  let tx: ethers.ContractTransactionResponse;
+  if (privateMode) {
+    if (options.encryptedAsk || options.publicBuyerPrice !== undefined || options.publicSellerPrice !== undefined) {
+      throw new Error('Private sessions take neither an ask placeholder nor cleartext prices');
+    }
+    tx = await contract.createPrivateSession(
+      encryptedBid.encryptedData,
+      encryptedBid.proof,
+      policy,
+      bidWeightPercent,
+      deadline,
+      maxRounds,
+      invitedSellers
+    );
+  } else {
+    if (!options.encryptedAsk) {
+      throw new Error('Legacy sessions require an encryptedAsk placeholder');
+    }
+    const publicBuyerPrice = options.publicBuyerPrice ?? 0;
+    const publicSellerPrice = options.publicSellerPrice ?? 0;
+    assertNoCleartextPrices({ publicBuyerPrice, publicSellerPrice }, options.allowCleartextPrices);
+
+    tx = await contract.createSession(
+      encryptedBid.encryptedData,
+      options.encryptedAsk.encryptedData,
+      encryptedBid.proof,
+      options.encryptedAsk.proof,
+      publicBuyerPrice,
+      publicSellerPrice,
+      policy,
+      bidWeightPercent,
+      deadline,
+      maxRounds,
+      invitedSellers
+    );
+  }
+
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new TransactionFailedError();
+  }
+
+  let sessionId: string | undefined;
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === 'SessionCreated') {
+      sessionId = parsed.args.sessionId;
+      break;
+    }
+  }
+
+  return { sessionId, deadline, transactionReceipt: receipt };
+}
+
+/**
+ * Join a session as the seller with an encrypted ask.
+ * Private sessions are joined without any cleartext price.
+ */
+export async function joinBargainSession(
+  contract: ethers.Contract,
+  sessionId: string,
+  encryptedAsk: EncryptedParam,
+  options: JoinSessionOptions = {}
+) {
+  const session = await contract.getSession(sessionId);
+  if (Number(session.state) !== SessionState.Open) {
+    throw new Error(`Session cannot be joined: ${SESSION_STATE_LABELS[Number(session.state) as SessionState].toLowerCase()}`);
+  }
+  const runner = contract.runner as ethers.Signer | null;
+  if (session.inviteOnly && runner && typeof runner.getAddress === 'function') {
+    if (!(await contract.canJoin(sessionId, await runner.getAddress()))) {
+      throw new Error('This session is restricted to invited sellers');
+    }
+  }
+
+  let tx: ethers.ContractTransactionResponse;
+  if (session.privateMode) {
+    if (options.publicSellerPrice !== undefined) {
+      throw new Error('Private sessions do not accept a cleartext seller price');
+    }
+    tx = await contract.joinPrivateSession(sessionId, encryptedAsk.encryptedData, encryptedAsk.proof);
+  } else {
+    const publicSellerPrice = options.publicSellerPrice ?? 0;
+    assertNoCleartextPrices({ publicSellerPrice }, options.allowCleartextPrices);
+    tx = await contract.joinSession(sessionId, encryptedAsk.encryptedData, encryptedAsk.proof, publicSellerPrice);
+  }
+
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new TransactionFailedError();
+  }
+  return receipt;
+}
+
+/**
+ * Open the encrypted match flag and settlement price of a joined session to public decryption if needed,
+ * then decrypt them and submit the KMS proof before the session deadline.
+ * The settlement price is zero unless the deal matched; bid and ask stay encrypted.
+ */
+export async function resolveDealMatch(contract: ethers.Contract, sessionId: string) {
+  const state = Number(await contract.getSessionState(sessionId)) as SessionState;
+  if (state === SessionState.Open) {
+    throw new Error('Match has not been computed yet. Wait for a seller to join the session.');
+  }
+  if (state !== SessionState.Joined && state !== SessionState.Revealing) {
+    throw new Error(`Match cannot be resolved: ${SESSION_STATE_LABELS[state].toLowerCase()}`);
+  }
+
+  const matchHandle: string = await contract.getEncryptedMatch(sessionId);
+  const settlementHandle: string = await contract.getEncryptedSettlementPrice(sessionId);
+
+  const result = await revealAndVerify({
+    request: state === SessionState.Joined ? () => contract.requestMatchReveal(sessionId) : undefined,
+    handles: [matchHandle, settlementHandle],
+    // resolveMatch decodes (bool matched, uint64 settlementPrice)
+    expectedTypes: ['ebool', 'euint64'],
+    submit: (abiEncodedClearValues, decryptionProof) =>
+      contract.resolveMatch(sessionId, abiEncodedClearValues, decryptionProof)
+  });
+
+  const matched = Boolean(result.decryptionResult.clearValues[matchHandle]);
+
+  return {
+    matched,
+    settlementPrice: matched ? BigInt(result.decryptionResult.clearValues[settlementHandle]) : null,
+    ...result
+  };
+}
+
+/** Path under which an app serves the join screen for invite links */
+export const INVITE_PATH_PREFIX = '/join/';
+
+/**
+ * Build a shareable link that deep-links the invited seller into the join screen of a session
+ */
+export function buildInviteLink(sessionId: string, baseUrl: string) {
+  if (!ethers.isHexString(sessionId, 32)) {
+    throw new Error('Invalid session id');
+  }
+  return new URL(`${INVITE_PATH_PREFIX}${sessionId}`, baseUrl).toString();
+}
+
+/**
+ * Extract the session id from an invite link or path, or null if it is not one
+ */
+export function parseInviteLink(urlOrPath: string) {
+  const { pathname } = new URL(urlOrPath, 'http://invite.local');
+  const match = pathname.match(/\/join\/(0x[0-9a-fA-F]{64})\/?$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Replace the caller's encrypted price after a no-match round.
+ * The next round is evaluated as soon as both buyer and seller have countered.
+ */
+export async function submitCounterOffer(
+  contract: ethers.Contract,
+  sessionId: string,
+  encryptedOffer: EncryptedParam
+) {
+  const state = Number(await contract.getSessionState(sessionId)) as SessionState;
+  if (state !== SessionState.Countering) {
+    throw new Error(`Session is not accepting counter-offers: ${SESSION_STATE_LABELS[state].toLowerCase()}`);
+  }
+
+  const tx = await contract.submitCounterOffer(sessionId, encryptedOffer.encryptedData, encryptedOffer.proof);
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new TransactionFailedError();
+  }
+  return receipt;
+}
+
+export interface RoundInfo {
+  round: number;
+  maxRounds: number;
+  buyerCountered: boolean;
+  sellerCountered: boolean;
+}
+
+export type NegotiationTurn = 'buyer' | 'seller' | 'both' | null;
+
+/**
+ * Read the current round and the counter-offers already submitted in it
+ */
+export async function getRoundInfo(contract: ethers.Contract, sessionId: string): Promise<RoundInfo> {
+  const info = await contract.getRoundInfo(sessionId);
+  return {
+    round: Number(info.round),
+    maxRounds: Number(info.maxRounds),
+    buyerCountered: info.buyerCountered,
+    sellerCountered: info.sellerCountered
+  };
+}
+
+/**
+ * Who the session is waiting on: the seller to join, either party to check the match ('both'),
+ * or whoever has not countered yet. Null once the session is over.
+ */
+export function getNegotiationTurn(state: SessionState, roundInfo: RoundInfo): NegotiationTurn {
+  switch (state) {
+    case SessionState.Open:
+      return 'seller';
+    case SessionState.Joined:
+    case SessionState.Revealing:
+      return 'both';
+    case SessionState.Countering:
+      if (!roundInfo.buyerCountered && !roundInfo.sellerCountered) return 'both';
+      return roundInfo.buyerCountered ? 'seller' : 'buyer';
+    default:
+      return null;
+  }
+}
+
+export interface NegotiationRound {
+  round: number;
+  /** Block of the MatchComputed event, once both prices of the round are in */
+  computedAtBlock?: number;
+  outcome: 'pending' | 'matched' | 'no-deal';
+  settlementPrice?: bigint;
+  /** Parties that countered after this round failed, in submission order */
+  counterOffers: { party: string; blockNumber: number }[];
+}
+
+/**
+ * Rebuild the round history of a session from its events. Only verdicts are public; the
+ * prices of earlier rounds never leave their ciphertexts.
+ */
+export async function getSessionTimeline(
+  contract: ethers.Contract,
+  sessionId: string,
+  fromBlock: ethers.BlockTag = 0
+): Promise<NegotiationRound[]> {
+  const [computed, matched, noDeal, counters] = await Promise.all([
+    contract.queryFilter(contract.filters.MatchComputed(sessionId), fromBlock),
+    contract.queryFilter(contract.filters.DealMatched(sessionId), fromBlock),
+    contract.queryFilter(contract.filters.NoDeal(sessionId), fromBlock),
+    contract.queryFilter(contract.filters.CounterOfferSubmitted(sessionId), fromBlock)
+  ]);
+
+  const rounds = new Map<number, NegotiationRound>();
+  const roundOf = (round: number) => {
+    if (!rounds.has(round)) {
+      rounds.set(round, { round, outcome: 'pending', counterOffers: [] });
+    }
+    return rounds.get(round)!;
+  };
+  const argsOf = (log: ethers.Log) => (log as ethers.EventLog).args;
+
+  for (const log of computed) {
+    roundOf(Number(argsOf(log).round)).computedAtBlock = log.blockNumber;
+  }
+  for (const log of matched) {
+    const entry = roundOf(Number(argsOf(log).round));
+    entry.outcome = 'matched';
+    entry.settlementPrice = BigInt(argsOf(log).price);
+  }
+  for (const log of noDeal) {
+    roundOf(Number(argsOf(log).round)).outcome = 'no-deal';
+  }
+  for (const log of counters) {
+    roundOf(Number(argsOf(log).round)).counterOffers.push({ party: argsOf(log).party, blockNumber: log.blockNumber });
+  }
+
+  return [...rounds.values()].sort((a, b) => a.round - b.round);
+}
+
+/**
+ * Cancel a session that no seller has joined yet. Only the buyer can cancel.
+ */
+export async function cancelBargainSession(contract: ethers.Contract, sessionId: string) {
+  const tx = await contract.cancelSession(sessionId);
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new TransactionFailedError();
+  }
+  return receipt;
+}
+
+/**
+ * Record on-chain that a session passed its deadline. Anyone can call this once the deadline is over.
+ */
+export async function expireBargainSession(contract: ethers.Contract, sessionId: string) {
+  const tx = await contract.expireSession(sessionId);
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new TransactionFailedError();
+  }
+  return receipt;
+}
+
+/**
+ * Publicly reveal the caller's own price on a matched, non-private session.
+ * Requests the reveal on-chain if needed, then decrypts and submits the KMS proof.
+ */
+export async function revealSessionPrice(contract: ethers.Contract, sessionId: string) {
+  const runner = contract.runner as ethers.Signer | null;
+  if (!runner || typeof runner.getAddress !== 'function') {
+    throw new Error('Contract must be connected to a signer to reveal a price');
+  }
+  const account = (await runner.getAddress()).toLowerCase();
+
+  const session = await contract.sessions(sessionId);
+  const role = session.buyer.toLowerCase() === account
+    ? 'buyer'
+    : session.seller.toLowerCase() === account ? 'seller' : null;
+  if (!role) {
+    throw new Error('Only the buyer or seller of this session can reveal');
+  }
+
+  const alreadyRequested = role === 'buyer' ? session.buyerRevealRequested : session.sellerRevealRequested;
+  const [encryptedBuyerPrice, encryptedSellerPrice] = await contract.getEncryptedPrices(sessionId);
+  const handle: string = role === 'buyer' ? encryptedBuyerPrice : encryptedSellerPrice;
+
+  const result = await revealAndVerify({
+    request: alreadyRequested ? undefined : () => contract.requestReveal(sessionId),
+    handles: [handle],
+    expectedTypes: ['euint32'],
+    submit: (abiEncodedClearValues, decryptionProof) => role === 'buyer'
+      ? contract.revealBuyerPrice(sessionId, abiEncodedClearValues, decryptionProof)
+      : contract.revealSellerPrice(sessionId, abiEncodedClearValues, decryptionProof)
+  });
+
+  return {
+    role,
+    price: BigInt(result.decryptionResult.clearValues[handle]),
+    ...result
+  };
+}
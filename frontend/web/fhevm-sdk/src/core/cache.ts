@@ -0,0 +1,207 @@
+/**
+ * Decrypted-value cache
+ * A handle never changes value (a new value gets a new handle), so clear values can be reused
+ * until the account or chain changes or the ACL stops allowing them. Entries also expire, which bounds how long
+ * a value can be served without the ACL being asked again.
+ */
+
+import { ethers } from "ethers";
+
+import { normalizeHandle } from "./handles.js";
+import { EncryptedIndexedDbStore, KeyValueStore, supportsEncryptedStore } from "./storage.js";
+import { TypedClearValue } from "./values.js";
+
+export interface DecryptedValueKey {
+  chainId: number;
+  contractAddress: string;
+  handle: string;
+  account: string;
+}
+
+export interface DecryptedValueCacheOptions {
+  /**
+   * Also keep values in IndexedDB, AES-GCM encrypted with a non-extractable WebCrypto key,
+   * so they survive reloads without sitting in plaintext on disk (browser only, default false)
+   */
+  persistent?: boolean;
+  /** How long after decryption a value may be served, in milliseconds (default one hour) */
+  maxAgeMs?: number;
+}
+
+export const DEFAULT_DECRYPTED_VALUE_MAX_AGE_MS = 60 * 60 * 1000;
+
+interface CachedValue {
+  value: TypedClearValue;
+  /** Unix time (milliseconds) the value was decrypted */
+  cachedAt: number;
+}
+
+interface SerializedValue {
+  type: 'bigint' | 'boolean' | 'address';
+  value: string;
+  cachedAt: number;
+}
+
+function cacheKey(key: DecryptedValueKey) {
+  return [
+    key.chainId,
+    ethers.getAddress(key.account),
+    ethers.getAddress(key.contractAddress),
+    normalizeHandle(key.handle),
+  ].join(':');
+}
+
+function parseCacheKey(id: string): DecryptedValueKey {
+  const [chainId, account, contractAddress, handle] = id.split(':');
+  return { chainId: Number(chainId), account, contractAddress, handle };
+}
+
+function serialize({ value, cachedAt }: CachedValue): SerializedValue {
+  if (typeof value === 'bigint') return { type: 'bigint', value: value.toString(), cachedAt };
+  if (typeof value === 'boolean') return { type: 'boolean', value: String(value), cachedAt };
+  return { type: 'address', value, cachedAt };
+}
+
+function deserialize({ type, value, cachedAt }: SerializedValue): CachedValue {
+  if (type === 'bigint') return { value: BigInt(value), cachedAt };
+  if (type === 'boolean') return { value: value === 'true', cachedAt };
+  return { value, cachedAt };
+}
+
+async function openEncryptedStore(): Promise<KeyValueStore<SerializedValue> | null> {
+  if (!supportsEncryptedStore()) {
+    console.warn('⚠️ Persistent decrypted-value cache needs IndexedDB and WebCrypto, keeping values in memory only');
+    return null;
+  }
+  return new EncryptedIndexedDbStore<SerializedValue>('decrypted-values');
+}
+
+export class DecryptedValueCache {
+  private readonly values = new Map<string, CachedValue>();
+  private readonly listeners = new Set<() => void>();
+  /** `${chainId}:${account}` the cached values belong to */
+  private scope: string | null = null;
+  private persistence: Promise<KeyValueStore<SerializedValue> | null> | null = null;
+
+  constructor(private readonly options: DecryptedValueCacheOptions = {}) {}
+
+  /**
+   * Value already in memory, for rendering without waiting
+   */
+  peek(key: DecryptedValueKey): TypedClearValue | undefined {
+    const known = this.values.get(cacheKey(key));
+    return known && !this.isExpired(known) ? known.value : undefined;
+  }
+
+  /**
+   * Value from memory, or from the persistent layer. Expired values are dropped on the way.
+   */
+  async get(key: DecryptedValueKey): Promise<TypedClearValue | undefined> {
+    const id = cacheKey(key);
+    const known = this.values.get(id);
+    if (known && !this.isExpired(known)) return known.value;
+
+    const persistence = await this.getPersistence();
+    const stored = persistence ? await persistence.get(id).catch(() => undefined) : undefined;
+    // Entries written before values carried a timestamp count as expired
+    const entry = stored && typeof stored.cachedAt === 'number' ? deserialize(stored) : undefined;
+
+    if (!entry || this.isExpired(entry)) {
+      if (known || stored) await this.delete(key);
+      return undefined;
+    }
+    this.values.set(id, entry);
+    this.notify();
+    return entry.value;
+  }
+
+  async set(key: DecryptedValueKey, value: TypedClearValue) {
+    const id = cacheKey(key);
+    const entry = { value, cachedAt: Date.now() };
+    this.values.set(id, entry);
+    this.notify();
+
+    const persistence = await this.getPersistence();
+    if (!persistence) return;
+    // Storage is an optimization, like for decryption authorizations
+    await persistence.set(id, serialize(entry)).catch(err => {
+      console.warn('⚠️ Could not store decrypted value:', err);
+    });
+  }
+
+  async delete(key: DecryptedValueKey) {
+    await this.clear(entry => cacheKey(entry) === cacheKey(key));
+  }
+
+  /**
+   * Make (chainId, account) the active scope: values of any other chain or account are dropped
+   */
+  async setScope(chainId: number, account: string) {
+    const scope = `${chainId}:${ethers.getAddress(account)}`;
+    if (scope === this.scope) return;
+    this.scope = scope;
+    await this.clear(entry => `${entry.chainId}:${entry.account}` !== scope);
+  }
+
+  /**
+   * Drop every value, or those matching the filter, from memory and from the persistent layer
+   */
+  async clear(filter: (key: DecryptedValueKey) => boolean = () => true) {
+    let changed = false;
+    for (const id of [...this.values.keys()]) {
+      if (filter(parseCacheKey(id))) {
+        this.values.delete(id);
+        changed = true;
+      }
+    }
+    if (changed) this.notify();
+
+    const persistence = await this.getPersistence();
+    if (!persistence) return;
+    const ids = await persistence.keys().catch(() => [] as string[]);
+    await Promise.all(ids.filter(id => filter(parseCacheKey(id))).map(id => persistence.delete(id)));
+  }
+
+  /**
+   * Drop the values the ACL no longer allows. Returns how many were dropped.
+   */
+  async revalidate(isAllowed: (key: DecryptedValueKey) => Promise<boolean>) {
+    const persistence = await this.getPersistence();
+    const persisted = persistence ? await persistence.keys().catch(() => [] as string[]) : [];
+    const ids = [...new Set([...this.values.keys(), ...persisted])];
+
+    const revoked = new Set<string>();
+    await Promise.all(ids.map(async id => {
+      if (!(await isAllowed(parseCacheKey(id)))) revoked.add(id);
+    }));
+    if (revoked.size > 0) {
+      await this.clear(entry => revoked.has(cacheKey(entry)));
+    }
+    return revoked.size;
+  }
+
+  /**
+   * Called whenever cached values change; returns the unsubscribe function
+   */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isExpired({ cachedAt }: CachedValue) {
+    return Date.now() - cachedAt > (this.options.maxAgeMs ?? DEFAULT_DECRYPTED_VALUE_MAX_AGE_MS);
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener();
+  }
+
+  private getPersistence() {
+    if (!this.persistence) {
+      this.persistence = this.options.persistent ? openEncryptedStore() : Promise.resolve(null);
+    }
+    return this.persistence;
+  }
+}
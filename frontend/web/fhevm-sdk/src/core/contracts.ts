@@ -5,6 +5,8 @@
 
 import { ethers } from 'ethers';
 import { createEncryptedInput } from './fhevm.js';
+import { EncryptedParam } from './types.js';
+import { TransactionFailedError } from './errors.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
@@ -20,8 +22,8 @@ export class FhevmContract {
    */
   async encryptAndCall(
     functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
+    encryptedParams: EncryptedParam,
+    ...additionalParams: unknown[]
   ): Promise<ethers.ContractTransactionResponse> {
     return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
   }
@@ -31,13 +33,13 @@ export class FhevmContract {
    */
   async encryptAndCallAndWait(
     functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
+    encryptedParams: EncryptedParam,
+    ...additionalParams: unknown[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
     const receipt = await tx.wait();
     if (!receipt) {
-      throw new Error("Transaction receipt is null");
+      throw new TransactionFailedError();
     }
     return receipt;
   }
@@ -45,7 +47,7 @@ export class FhevmContract {
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
+  async createEncryptedInput(userAddress: string, value: number): Promise<EncryptedParam> {
     return createEncryptedInput(this.address, userAddress, value);
   }
 }
@@ -0,0 +1,82 @@
+/**
+ * Encryption worker entry, started as a classic worker by FhevmEncryptionWorker
+ * Loads the relayer SDK and its WASM off the main thread. It imports nothing at runtime: the page sends
+ * ready-made relayer config and validated builder calls, and classifies the errors that come back.
+ */
+
+import type { EncryptionWorkerRequest, EncryptionWorkerResponse } from "./worker.js";
+import type { EncryptedInputBuilder, FhevmInstance } from "./types.js";
+
+/** The parts of DedicatedWorkerGlobalScope used here; the SDK compiles against the DOM lib */
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<EncryptionWorkerRequest>) => void) | null;
+  postMessage(message: EncryptionWorkerResponse): void;
+  importScripts(...urls: string[]): void;
+  RelayerSDK?: any;
+  relayerSDK?: any;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let instance: FhevmInstance | null = null;
+
+/**
+ * Same fallback as the page: CDN WASM first, the local files when that fails (usually CORS)
+ */
+async function loadRelayerSdk(sdkUrl: string, wasm: { tfheParams: string; kmsParams: string }) {
+  // The UMD bundle registers itself on the global scope, like the page's script tag
+  scope.importScripts(sdkUrl);
+  const sdk = scope.RelayerSDK || scope.relayerSDK;
+  if (!sdk) {
+    throw new Error(`${sdkUrl} did not define RelayerSDK`);
+  }
+
+  try {
+    await sdk.initSDK();
+  } catch (cdnError) {
+    console.warn('⚠️ Worker CDN initialization failed, falling back to local WASM files:', cdnError);
+    await sdk.initSDK(wasm);
+  }
+  return sdk;
+}
+
+async function handle(request: EncryptionWorkerRequest): Promise<unknown> {
+  switch (request.type) {
+    case 'init': {
+      const sdk = await loadRelayerSdk(request.sdkUrl, request.wasm);
+      // No wallet in a worker: the config points the relayer SDK at a plain JSON-RPC endpoint
+      instance = await sdk.createInstance(request.config);
+      return null;
+    }
+    case 'encrypt': {
+      const builder = requireInstance().createEncryptedInput(request.contractAddress, request.userAddress);
+      for (const { method, value } of request.inputs) {
+        (builder[method] as (value: unknown) => EncryptedInputBuilder).call(builder, value);
+      }
+      scope.postMessage({ id: request.id, type: 'progress', progress: { stage: 'encrypting' } });
+      return builder.encrypt();
+    }
+    case 'generateKeypair':
+      return requireInstance().generateKeypair();
+  }
+}
+
+function requireInstance() {
+  if (!instance) {
+    throw new Error('Encryption worker received a request before init');
+  }
+  return instance;
+}
+
+scope.onmessage = async event => {
+  const request = event.data;
+  try {
+    scope.postMessage({ id: request.id, type: 'result', result: await handle(request) });
+  } catch (err: any) {
+    scope.postMessage({
+      id: request.id,
+      type: 'error',
+      error: { name: err?.name ?? 'Error', message: err?.message ?? String(err) },
+    });
+  }
+};
@@ -0,0 +1,237 @@
+/**
+ * FHEVM SDK errors
+ * Every SDK failure is an FhevmError with a stable code; the original error is kept as `cause`
+ */
+
+import type { FheInputType } from "./types.js";
+
+export const FhevmErrorCode = {
+  NOT_INITIALIZED: 'NOT_INITIALIZED',
+  RELAYER_UNAVAILABLE: 'RELAYER_UNAVAILABLE',
+  USER_REJECTED: 'USER_REJECTED',
+  ACL_DENIED: 'ACL_DENIED',
+  INVALID_HANDLE: 'INVALID_HANDLE',
+  PROOF_REJECTED: 'PROOF_REJECTED',
+  WRONG_CHAIN: 'WRONG_CHAIN',
+  VALUE_OUT_OF_RANGE: 'VALUE_OUT_OF_RANGE',
+  CANCELLED: 'CANCELLED',
+  TRANSACTION_FAILED: 'TRANSACTION_FAILED',
+} as const;
+
+export type FhevmErrorCode = typeof FhevmErrorCode[keyof typeof FhevmErrorCode];
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/** No relayer instance yet (initializeFheInstance() / client.init() was not called or failed), or no signer */
+export class NotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() or client.init() first.', cause?: unknown) {
+    super(FhevmErrorCode.NOT_INITIALIZED, message, cause);
+    this.name = 'NotInitializedError';
+  }
+}
+
+/** The relayer or KMS could not be reached, or answered with something unusable */
+export class RelayerUnavailableError extends FhevmError {
+  constructor(message = 'FHEVM relayer is temporarily unavailable. Please try again later.', cause?: unknown) {
+    super(FhevmErrorCode.RELAYER_UNAVAILABLE, message, cause);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+/** The wallet refused a signature or transaction */
+export class UserRejectedError extends FhevmError {
+  constructor(message = 'Request rejected by user', cause?: unknown) {
+    super(FhevmErrorCode.USER_REJECTED, message, cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+/** The ACL does not allow this account or contract to decrypt the handle */
+export class AclDeniedError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super(FhevmErrorCode.ACL_DENIED, message, cause);
+    this.name = 'AclDeniedError';
+  }
+}
+
+/** Malformed handle, or a handle of another FHE type than expected */
+export class InvalidHandleError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super(FhevmErrorCode.INVALID_HANDLE, message, cause);
+    this.name = 'InvalidHandleError';
+  }
+}
+
+/** The KMS proof is missing, or the contract refused it */
+export class ProofRejectedError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super(FhevmErrorCode.PROOF_REJECTED, message, cause);
+    this.name = 'ProofRejectedError';
+  }
+}
+
+/** The wallet is on another chain than the network the client was created for */
+export class WrongChainError extends FhevmError {
+  readonly expectedChainId: number;
+  readonly actualChainId: number;
+
+  constructor(expectedChainId: number, actualChainId: number, cause?: unknown) {
+    super(
+      FhevmErrorCode.WRONG_CHAIN,
+      `Wallet is on chain ${actualChainId}, but the FHEVM network is chain ${expectedChainId}. Switch networks and retry.`,
+      cause
+    );
+    this.name = 'WrongChainError';
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+/** A value does not fit the encrypted type it is meant for */
+export class ValueOutOfRangeError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super(FhevmErrorCode.VALUE_OUT_OF_RANGE, message, cause);
+    this.name = 'ValueOutOfRangeError';
+  }
+}
+
+/** The caller aborted the operation, e.g. an encryption through its AbortSignal */
+export class CancelledError extends FhevmError {
+  constructor(message = 'Operation cancelled', cause?: unknown) {
+    super(FhevmErrorCode.CANCELLED, message, cause);
+    this.name = 'CancelledError';
+  }
+}
+
+/** A transaction was dropped or replaced before it produced a receipt */
+export class TransactionFailedError extends FhevmError {
+  constructor(message = 'Transaction receipt is null', cause?: unknown) {
+    super(FhevmErrorCode.TRANSACTION_FAILED, message, cause);
+    this.name = 'TransactionFailedError';
+  }
+}
+
+/**
+ * Thrown when the relayer returns an encryption result without handles or proof
+ */
+export class InvalidEncryptionResultError extends RelayerUnavailableError {
+  readonly result: unknown;
+
+  constructor(result: unknown) {
+    super('Relayer returned an encryption result without handles and inputProof');
+    this.name = 'InvalidEncryptionResultError';
+    this.result = result;
+  }
+}
+
+/**
+ * Thrown before encryption when a value does not fit its encrypted type
+ */
+export class InputRangeError extends ValueOutOfRangeError {
+  readonly index: number;
+  readonly type: FheInputType;
+  readonly value: unknown;
+
+  constructor(index: number, type: FheInputType, value: unknown, reason: string) {
+    super(`Input #${index} (${type}): ${reason}`);
+    this.name = 'InputRangeError';
+    this.index = index;
+    this.type = type;
+    this.value = value;
+  }
+}
+
+/**
+ * Thrown when a public decryption comes back without KMS signatures, which the contract would reject
+ */
+export class MissingDecryptionProofError extends ProofRejectedError {
+  readonly handles: string[];
+
+  constructor(handles: string[]) {
+    super('No KMS decryption proof available for the requested handles; refusing to return unverifiable values');
+    this.name = 'MissingDecryptionProofError';
+    this.handles = handles;
+  }
+}
+
+/**
+ * Thrown when a handle's FHE type differs from the Solidity type the caller expects to verify
+ */
+export class HandleTypeMismatchError extends InvalidHandleError {
+  readonly handle: string;
+  readonly expected: FheInputType;
+  readonly actual: FheInputType;
+
+  constructor(handle: string, expected: FheInputType, actual: FheInputType) {
+    super(`Handle ${handle} is an ${actual}, expected an ${expected}`);
+    this.name = 'HandleTypeMismatchError';
+    this.handle = handle;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** Property of a thrown value, which may be anything */
+function field(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null && key in value
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/** ethers wraps the error of the wallet as `info.error` */
+function walletErrorOf(error: unknown): unknown {
+  return field(field(error, 'info'), 'error');
+}
+
+function messageOf(error: unknown): string {
+  return [field(error, 'shortMessage'), field(error, 'message'), field(error, 'reason'), field(walletErrorOf(error), 'message')]
+    .filter((part): part is string => typeof part === 'string')
+    .join(' ');
+}
+
+/**
+ * Map an error thrown by a wallet, the relayer SDK or a contract call onto an FhevmError.
+ * Errors that match no code are returned unchanged.
+ */
+export function toFhevmError(error: unknown): unknown {
+  if (error instanceof FhevmError) return error;
+
+  const message = messageOf(error);
+  const code = field(error, 'code');
+  const walletCode = field(walletErrorOf(error), 'code');
+
+  if (code === 'ACTION_REJECTED' || code === 4001 || walletCode === 4001 || /user (rejected|denied)/i.test(message)) {
+    return new UserRejectedError(undefined, error);
+  }
+  if (/not (authorized|allowed) (to user decrypt|for public decryption)|ACLNotAllowed|SenderNotAllowed/i.test(message)) {
+    return new AclDeniedError(message, error);
+  }
+  if (/InvalidKMSSignatures|KMS signers threshold|invalid (decryption )?proof/i.test(message) || field(field(error, 'revert'), 'name') === 'InvalidKMSSignatures') {
+    return new ProofRejectedError(message, error);
+  }
+  if (/Handle .* is not of valid (length|type)|Invalid ciphertext handle/i.test(message)) {
+    return new InvalidHandleError(message, error);
+  }
+  if (/Failed to fetch|NetworkError|ECONNREFUSED|ETIMEDOUT|fetch failed|Relayer didn't respon|rate limit exceeded|HTTP code 5\d\d/i.test(message)) {
+    return new RelayerUnavailableError(undefined, error);
+  }
+  return error;
+}
+
+/**
+ * Code of an error, classifying raw wallet/relayer errors on the way
+ */
+export function getFhevmErrorCode(error: unknown): FhevmErrorCode | undefined {
+  const mapped = toFhevmError(error);
+  return mapped instanceof FhevmError ? mapped.code : undefined;
+}
@@ -6,393 +6,285 @@
 
 import { ethers } from "ethers";
 
-let fheInstance: any = null;
+import { FhevmClient, FhevmClientOptions, PublicDecryptOptions, UserDecryptBatchOptions } from "./client.js";
+import { TypedClearValue } from "./values.js";
+import { EncryptOptions, EncryptedInput, EncryptedInputSpec, EncryptedInputs, EncryptedParam, FheInputType, FhevmInstance, FhevmSigner, HandleContractPair, PublicDecryptResults } from "./types.js";
+import { FhevmError, FhevmErrorCode, TransactionFailedError, toFhevmError } from "./errors.js";
+
+let defaultClient = new FhevmClient();
+
+export type InitializeFheInstanceOptions = FhevmClientOptions;
 
 /**
- * Initialize FHEVM instance for browser environment
+ * Client behind the free functions below
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
-  }
+export function getDefaultFhevmClient() {
+  return defaultClient;
+}
 
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
+/**
+ * Swap the client behind the free functions, e.g. one per test case. The previous one is disposed.
+ */
+export function setDefaultFhevmClient(client: FhevmClient) {
+  if (client !== defaultClient) defaultClient.dispose();
+  defaultClient = client;
+}
 
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
-  }
+/**
+ * Initialize FHEVM instance - Environment-aware
+ * MAINTAINS BACKWARD COMPATIBILITY: with no options it targets Sepolia as before
+ */
+export async function initializeFheInstance(options: InitializeFheInstanceOptions = {}) {
+  // Keep decrypted values across re-initialization; the cache drops them itself when account or chain change
+  setDefaultFhevmClient(new FhevmClient({ cache: defaultClient.getDecryptedValueCache(), ...options }));
+  return defaultClient.init();
+}
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+/**
+ * Network the current instance was created for, or null before initialization
+ */
+export function getFheNetwork() {
+  return defaultClient.isInitialized ? defaultClient.getNetwork() : null;
+}
 
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
-  try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
-    });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
-  }
+/**
+ * Node.js signer configured at initialization, for decryptValue and contract calls
+ */
+export function getFheSigner() {
+  return defaultClient.getSigner();
+}
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+export function getFheInstance(): FhevmInstance | null {
+  return defaultClient.getInstance();
+}
 
-  try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
-    throw err;
-  }
+/**
+ * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API).
+ * Returns a bigint for euintXX, a boolean for ebool and a checksummed address for eaddress.
+ */
+export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: FhevmSigner): Promise<TypedClearValue> {
+  return defaultClient.decryptValue(encryptedBytes, contractAddress, signer);
 }
 
 /**
- * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
+ * Publicly decrypt one value for display; calls in the same tick are batched
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
-  try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
-    
-    // Use eval to prevent webpack from analyzing these imports
-    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
-    
-    const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
-    };
-    
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
-    throw err;
-  }
+export async function publicDecryptValue(handle: string): Promise<TypedClearValue> {
+  return defaultClient.publicDecryptValue(handle);
 }
 
 /**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
+ * Whether the ACL lets the account decrypt the handle (and the contract read it, when given), without a signature
  */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
-  }
+export async function canDecrypt(handle: string, account: string, contractAddress?: string): Promise<boolean> {
+  return defaultClient.canDecrypt(handle, account, contractAddress);
 }
 
-export function getFheInstance() {
-  return fheInstance;
+/**
+ * Whether the handle was made publicly decryptable
+ */
+export async function canPublicDecrypt(handle: string): Promise<boolean> {
+  return defaultClient.canPublicDecrypt(handle);
 }
 
 /**
- * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ * Value decryptValue already returned for this account, or undefined, without waiting
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export function getCachedDecryptedValue(handle: string, contractAddress: string, account: string): TypedClearValue | undefined {
+  return defaultClient.getCachedValue(handle, contractAddress, account);
+}
 
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+/**
+ * Cached value from memory or the persistent cache, once the ACL confirms the account may still read it
+ */
+export async function loadCachedDecryptedValue(handle: string, contractAddress: string, account: string) {
+  return defaultClient.loadCachedValue(handle, contractAddress, account);
+}
+
+/**
+ * Cache behind decryptValue, shared by the clients initializeFheInstance creates
+ */
+export function getDecryptedValueCache() {
+  return defaultClient.getDecryptedValueCache();
+}
+
+/**
+ * Drop cached values the ACL no longer allows; returns how many were dropped
+ */
+export async function revalidateDecryptedValues(): Promise<number> {
+  return defaultClient.revalidateDecryptedValues();
+}
+
+/**
+ * Forget cached clear values, e.g. on logout
+ */
+export async function clearDecryptedValues() {
+  return defaultClient.getDecryptedValueCache().clear();
 }
 
 /**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
+ * Batch decrypt multiple encrypted values using EIP-712 user decryption.
+ * Pass `{ handle, contractAddress }` pairs to decrypt across contracts with a single signature.
  */
 export async function batchDecryptValues(
   handles: string[], 
   contractAddress: string, 
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+  signer: FhevmSigner
+): Promise<Record<string, TypedClearValue>>;
+export async function batchDecryptValues(
+  pairs: HandleContractPair[],
+  signer: FhevmSigner,
+  options?: UserDecryptBatchOptions
+): Promise<Record<string, TypedClearValue>>;
+export async function batchDecryptValues(
+  handlesOrPairs: string[] | HandleContractPair[],
+  contractAddressOrSigner: string | FhevmSigner,
+  signerOrOptions?: FhevmSigner | UserDecryptBatchOptions
+): Promise<Record<string, TypedClearValue>> {
+  if (typeof contractAddressOrSigner === 'string') {
+    return defaultClient.userDecrypt(handlesOrPairs as string[], contractAddressOrSigner, signerOrOptions as FhevmSigner);
+  }
+  return defaultClient.userDecryptBatch(
+    handlesOrPairs as HandleContractPair[],
+    contractAddressOrSigner,
+    signerOrOptions as UserDecryptBatchOptions | undefined
+  );
+}
 
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
+/**
+ * Forget the stored decryption authorization for a contract set, the next decryption asks for a new signature
+ */
+export async function revokeDecryptionAuthorization(userAddress: string, contractAddresses: string[]) {
+  return defaultClient.revokeDecryptionAuthorization(userAddress, contractAddresses);
+}
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+/**
+ * Forget all stored decryption authorizations, or only those of one user
+ */
+export async function clearDecryptionAuthorizations(userAddress?: string) {
+  return defaultClient.clearDecryptionAuthorizations(userAddress);
 }
 
 /**
  * Encrypt values using FHEVM
  * 
  * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * Each digit is encrypted as an euint8 (0-255). For other bit sizes, or mixed types,
+ * use encryptInputs() with a schema instead:
+ * - { type: 'euint8', value }   - for 8-bit values (0-255)
+ * - { type: 'euint16', value }  - for 16-bit values (0-65535)
+ * - { type: 'euint32', value }  - for 32-bit values (0-4294967295)
+ * - { type: 'euint64', value }  - for 64-bit values (0-18446744073709551615)
+ * - { type: 'euint128', value } / { type: 'euint256', value }
+ * - { type: 'ebool', value } / { type: 'eaddress', value }
  */
 export async function encryptValue(
   contractAddress: string,
   address: string,
   plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
-  }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+): Promise<EncryptedInput> {
+  const inputs = await defaultClient.encryptInputs(
+    contractAddress,
+    address,
+    plainDigits.map(value => ({ type: 'euint8' as const, value }))
+  );
+  return { handles: inputs.handles.map(({ handle }) => handle), inputProof: inputs.inputProof };
 }
 
 /**
  * Create encrypted input for contract interaction (matches showcase API)
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
-  
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number,
+  options?: EncryptOptions
+): Promise<EncryptedParam> {
+  return defaultClient.encrypt(contractAddress, userAddress, value, options);
+}
+
+/**
+ * Encrypt several typed values for one contract call under a single proof
+ */
+export async function encryptInputs(
+  contractAddress: string,
+  userAddress: string,
+  specs: EncryptedInputSpec[],
+  options?: EncryptOptions
+): Promise<EncryptedInputs> {
+  return defaultClient.encryptInputs(contractAddress, userAddress, specs, options);
+}
+
+export async function publicDecryptV09(handles: string[], options?: PublicDecryptOptions): Promise<PublicDecryptResults> {
+  return defaultClient.publicDecrypt(handles, options);
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export interface RevealAndVerifyOptions {
+  /** Sends the on-chain reveal request; skipped when the handles are already publicly decryptable */
+  request?: () => Promise<ethers.ContractTransactionResponse>;
+  /** Handles to decrypt, or a loader evaluated after the request is mined */
+  handles: string[] | (() => Promise<string[]>);
+  /** Submits the clear values and KMS proof back to the contract */
+  submit: (abiEncodedClearValues: string, decryptionProof: string) => Promise<ethers.ContractTransactionResponse>;
+  retries?: number;
+  retryDelayMs?: number;
+  /** FHE types the verifying function decodes, in handle order, checked before decrypting */
+  expectedTypes?: FheInputType[];
+  /** Client to decrypt with; defaults to the one set up by initializeFheInstance() */
+  client?: FhevmClient;
+}
 
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
-
-      if (handles.length === 1) {
-
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
-
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
+/**
+ * Full v0.9 public decryption round trip in one call:
+ * request the reveal, wait for it, decrypt through the relayer and submit the proof
+ */
+export async function revealAndVerify(options: RevealAndVerifyOptions) {
+  const { retries = 5, retryDelayMs = 2000, client = defaultClient } = options;
+
+  let requestReceipt: ethers.TransactionReceipt | null = null;
+  if (options.request) {
+    try {
+      const requestTx = await options.request();
+      requestReceipt = await requestTx.wait();
+    } catch (error) {
+      throw toFhevmError(error);
     }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+    if (!requestReceipt) {
+      throw new TransactionFailedError();
     }
-    throw error;
   }
-}
 
+  const handles = typeof options.handles === 'function' ? await options.handles() : options.handles;
+
+  // The relayer may lag behind the chain before it sees the new public decryption permission
+  let decryptionResult: PublicDecryptResults | undefined;
+  for (let attempt = 0; !decryptionResult; attempt++) {
+    try {
+      decryptionResult = await client.publicDecrypt(handles, { expectedTypes: options.expectedTypes });
+    } catch (error) {
+      // Bad handles, bad proofs and a rejected signature will not fix themselves by waiting for the relayer
+      const code = error instanceof FhevmError ? error.code : undefined;
+      const permanent = code === FhevmErrorCode.INVALID_HANDLE
+        || code === FhevmErrorCode.PROOF_REJECTED
+        || code === FhevmErrorCode.USER_REJECTED;
+      if (permanent || attempt >= retries) throw error;
+      client.getLogger()?.debug(`⚠️ Public decryption not ready yet, retrying (${attempt + 1}/${retries})...`);
+      await new Promise(res => setTimeout(res, retryDelayMs * (attempt + 1)));
+    }
+  }
 
+  // A contract refusing the KMS signatures surfaces as PROOF_REJECTED
+  let transactionReceipt: ethers.TransactionReceipt | null;
+  try {
+    const tx = await options.submit(decryptionResult.abiEncodedClearValues, decryptionResult.decryptionProof);
+    transactionReceipt = await tx.wait();
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+
+  return {
+    decryptionResult,
+    requestReceipt,
+    transactionReceipt
+  };
+}
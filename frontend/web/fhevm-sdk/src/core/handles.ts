@@ -0,0 +1,147 @@
+/**
+ * Ciphertext handle helpers
+ * A handle is 32 bytes; byte 30 carries the FHE type of the value it points to
+ */
+
+import { ethers } from "ethers";
+
+import { FheInputType, HandleContractPair } from "./types.js";
+import { HandleTypeMismatchError } from "./errors.js";
+
+/** FHE type id (handle byte 30) => encrypted bit width */
+export const HANDLE_TYPE_BITS: Record<number, number> = {
+  0: 2, // ebool
+  2: 8, // euint8
+  3: 16, // euint16
+  4: 32, // euint32
+  5: 64, // euint64
+  6: 128, // euint128
+  7: 160, // eaddress
+  8: 256, // euint256
+};
+
+/** FHE type id (handle byte 30) => type name */
+export const HANDLE_TYPE_NAMES: Record<number, FheInputType> = {
+  0: 'ebool',
+  2: 'euint8',
+  3: 'euint16',
+  4: 'euint32',
+  5: 'euint64',
+  6: 'euint128',
+  7: 'eaddress',
+  8: 'euint256',
+};
+
+/** Relayer limit on the encrypted bits of one user decryption request */
+export const MAX_DECRYPT_BITS_PER_REQUEST = 2048;
+/** Relayer limit on the contracts one EIP-712 decryption signature covers */
+export const MAX_CONTRACTS_PER_AUTHORIZATION = 10;
+
+export function normalizeHandle(handle: string | Uint8Array) {
+  const hex = ethers.hexlify(handle);
+  if (ethers.dataLength(hex) !== 32) {
+    throw new Error(`Handle ${hex} is not 32 bytes`);
+  }
+  return hex;
+}
+
+export function getHandleTypeId(handle: string | Uint8Array) {
+  return ethers.getBytes(normalizeHandle(handle))[30];
+}
+
+export function getHandleBits(handle: string | Uint8Array) {
+  const hex = normalizeHandle(handle);
+  const bits = HANDLE_TYPE_BITS[getHandleTypeId(hex)];
+  if (bits === undefined) {
+    throw new Error(`Handle ${hex} has an unknown FHE type`);
+  }
+  return bits;
+}
+
+export function getHandleType(handle: string | Uint8Array): FheInputType {
+  const hex = normalizeHandle(handle);
+  const type = HANDLE_TYPE_NAMES[getHandleTypeId(hex)];
+  if (type === undefined) {
+    throw new Error(`Handle ${hex} has an unknown FHE type`);
+  }
+  return type;
+}
+
+/**
+ * Check handles against the FHE types the contract declares for them, in order
+ */
+export function assertHandleTypes(handles: (string | Uint8Array)[], expectedTypes: FheInputType[]) {
+  if (handles.length !== expectedTypes.length) {
+    throw new Error(`Expected ${expectedTypes.length} handle(s), got ${handles.length}`);
+  }
+  handles.forEach((handle, index) => {
+    const actual = getHandleType(handle);
+    if (actual !== expectedTypes[index]) {
+      throw new HandleTypeMismatchError(normalizeHandle(handle), expectedTypes[index], actual);
+    }
+  });
+}
+
+export interface NormalizedHandlePair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Hex handles and checksummed contracts, without duplicates
+ */
+export function normalizeHandlePairs(pairs: HandleContractPair[]): NormalizedHandlePair[] {
+  const seen = new Set<string>();
+  const normalized: NormalizedHandlePair[] = [];
+  for (const pair of pairs) {
+    const handle = normalizeHandle(pair.handle);
+    const contractAddress = ethers.getAddress(pair.contractAddress);
+    const key = `${contractAddress}:${handle}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      normalized.push({ handle, contractAddress });
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Split pairs into groups that one decryption signature can cover
+ */
+export function groupByAuthorization(pairs: NormalizedHandlePair[], maxContracts = MAX_CONTRACTS_PER_AUTHORIZATION) {
+  const contracts = [...new Set(pairs.map(pair => pair.contractAddress))].sort();
+  const groups: { contractAddresses: string[]; pairs: NormalizedHandlePair[] }[] = [];
+  for (let i = 0; i < contracts.length; i += maxContracts) {
+    const contractAddresses = contracts.slice(i, i + maxContracts);
+    groups.push({
+      contractAddresses,
+      pairs: pairs.filter(pair => contractAddresses.includes(pair.contractAddress)),
+    });
+  }
+  return groups;
+}
+
+/**
+ * Split pairs into relayer requests under the encrypted-bit (and optional handle count) limit
+ */
+export function chunkHandlePairs(
+  pairs: NormalizedHandlePair[],
+  maxBits = MAX_DECRYPT_BITS_PER_REQUEST,
+  maxHandles = Infinity
+) {
+  const chunks: NormalizedHandlePair[][] = [];
+  let current: NormalizedHandlePair[] = [];
+  let bits = 0;
+  for (const pair of pairs) {
+    const pairBits = getHandleBits(pair.handle);
+    if (current.length > 0 && (bits + pairBits > maxBits || current.length >= maxHandles)) {
+      chunks.push(current);
+      current = [];
+      bits = 0;
+    }
+    current.push(pair);
+    bits += pairBits;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
@@ -4,7 +4,25 @@
  */
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
+export * from './types.js';
+export * from './errors.js';
 export * from './fhevm.js';
+export * from './client.js';
+export * from './inputs.js';
+export * from './handles.js';
+export * from './values.js';
+export * from './queue.js';
+export * from './cache.js';
+export * from './acl.js';
+export * from './worker.js';
+export * from './storage.js';
+export * from './authorization.js';
+export * from './networks.js';
+export * from './provider.js';
+export * from './mock.js';
 export * from './contracts.js';
 
+// BargainFHE session protocol flows
+export * from './bargain.js';
+
 
@@ -0,0 +1,106 @@
+/**
+ * Schema-driven encrypted inputs
+ * Range-checks each value against its encrypted type before anything reaches the relayer
+ */
+
+import { ethers } from "ethers";
+
+import {
+  EncryptedInputBuilder,
+  EncryptedInputSpec,
+  EncryptedInputs,
+  EncryptedParam,
+  FheInputType,
+} from "./types.js";
+import { InputRangeError } from "./errors.js";
+
+/** Bit width of each integer input type */
+export const FHE_INPUT_BITS: Record<Exclude<FheInputType, 'ebool' | 'eaddress'>, number> = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+};
+
+function toBigInt(spec: EncryptedInputSpec, index: number): bigint {
+  const { type, value } = spec;
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    // Above 2^53 a number has already lost precision, so it cannot be trusted as an integer
+    if (!Number.isSafeInteger(value)) {
+      throw new InputRangeError(index, type, value, 'must be a safe integer, pass a bigint for large values');
+    }
+    return BigInt(value);
+  }
+  throw new InputRangeError(index, type, value, `expected a number or bigint, got ${typeof value}`);
+}
+
+/**
+ * Check one value against its type; returns the value in the form the builder takes
+ */
+export function validateInputSpec(spec: EncryptedInputSpec, index = 0): boolean | bigint | string {
+  const { type, value } = spec;
+
+  if (type === 'ebool') {
+    if (typeof value === 'boolean') return value;
+    const bit = toBigInt(spec, index);
+    if (bit !== 0n && bit !== 1n) {
+      throw new InputRangeError(index, type, value, 'must be a boolean, 0 or 1');
+    }
+    return bit === 1n;
+  }
+
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new InputRangeError(index, type, value, 'must be a valid address');
+    }
+    return ethers.getAddress(value);
+  }
+
+  const bits = FHE_INPUT_BITS[type];
+  if (bits === undefined) {
+    throw new InputRangeError(index, type, value, 'unsupported encrypted type');
+  }
+  const n = toBigInt(spec, index);
+  if (n < 0n || n >= 1n << BigInt(bits)) {
+    throw new InputRangeError(index, type, value, `must be between 0 and 2^${bits} - 1`);
+  }
+  return n;
+}
+
+/**
+ * Add every value to the builder in schema order, after validating all of them
+ */
+export function addInputSpecs(builder: EncryptedInputBuilder, specs: EncryptedInputSpec[]) {
+  if (specs.length === 0) {
+    throw new Error('encryptInputs needs at least one value');
+  }
+
+  const values = specs.map((spec, index) => validateInputSpec(spec, index));
+
+  specs.forEach(({ type }, index) => {
+    const value = values[index];
+    switch (type) {
+      case 'ebool': builder.addBool(value as boolean); break;
+      case 'eaddress': builder.addAddress(value as string); break;
+      case 'euint8': builder.add8(value as bigint); break;
+      case 'euint16': builder.add16(value as bigint); break;
+      case 'euint32': builder.add32(value as bigint); break;
+      case 'euint64': builder.add64(value as bigint); break;
+      case 'euint128': builder.add128(value as bigint); break;
+      case 'euint256': builder.add256(value as bigint); break;
+    }
+  });
+
+  return builder;
+}
+
+/**
+ * Split a multi-value result into per-argument params that share the proof,
+ * e.g. for a function taking one proof per encrypted argument
+ */
+export function toEncryptedParams(inputs: EncryptedInputs): EncryptedParam[] {
+  return inputs.handles.map(({ handle }) => ({ encryptedData: handle, proof: inputs.inputProof }));
+}
@@ -0,0 +1,210 @@
+/**
+ * Offline relayer/KMS stand-in
+ * Encrypts, proves and decrypts against the fhevm mock contracts of a Hardhat node, no Zama relayer involved
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+
+import { FhevmNetworkConfig } from "./networks.js";
+import { FhevmInstance, FhevmLogger } from "./types.js";
+import { RelayerUnavailableError, WrongChainError } from "./errors.js";
+
+/** Something that answers the `fhevm_relayer_*` JSON-RPC methods of @fhevm/hardhat-plugin */
+export type MockRelayerSource = string | ethers.Eip1193Provider | ethers.JsonRpcApiProvider;
+
+export interface FhevmMockOptions {
+  /**
+   * URL of a local `npx hardhat node` (defaults to the network's relayerUrl),
+   * or an in-process provider such as `hre.network.provider` in Hardhat tests
+   */
+  relayer?: MockRelayerSource;
+  /** Notes which chain's mock is used; defaults to the client's logger */
+  logger?: FhevmLogger;
+}
+
+/** Subset of the `fhevm_relayer_metadata` answer the mock is checked against */
+interface MockRelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+function toRelayerProvider(relayer: MockRelayerSource, chainId: number): ethers.JsonRpcApiProvider {
+  if (typeof relayer === 'string') {
+    return new ethers.JsonRpcProvider(relayer, chainId, { staticNetwork: true });
+  }
+  if ('request' in relayer && typeof relayer.request === 'function') {
+    return new ethers.BrowserProvider(relayer, chainId);
+  }
+  return relayer as ethers.JsonRpcApiProvider;
+}
+
+/**
+ * The node must serve the contracts the network describes, otherwise proofs and
+ * signatures would be valid for other addresses than the ones the app calls
+ */
+function assertMatchesNetwork(metadata: MockRelayerMetadata, network: FhevmNetworkConfig) {
+  if (Number(metadata.chainId) !== network.chainId) {
+    throw new WrongChainError(network.chainId, Number(metadata.chainId));
+  }
+
+  const expected: [keyof MockRelayerMetadata, string][] = [
+    ['ACLAddress', network.aclContractAddress],
+    ['KMSVerifierAddress', network.kmsContractAddress],
+    ['InputVerifierAddress', network.inputVerifierContractAddress],
+  ];
+  for (const [field, address] of expected) {
+    if (ethers.getAddress(String(metadata[field])) !== ethers.getAddress(address)) {
+      throw new Error(`Mock relayer ${field} ${metadata[field]} does not match network "${network.name}" (${address})`);
+    }
+  }
+}
+
+/**
+ * Relayer instance backed by @fhevm/mock-utils: input proofs signed by the Hardhat plugin's
+ * coprocessor signers, decryptions signed by its mock KMS, so contracts verify them as usual.
+ * Also returns the provider it reads the chain through, for Node.js signers.
+ */
+export async function createMockFhevmInstance(
+  network: FhevmNetworkConfig,
+  options: FhevmMockOptions = {}
+): Promise<{ instance: FhevmInstance; provider: ethers.JsonRpcApiProvider }> {
+  // Optional peer dependency, only loaded when the mock is selected
+  const mockUtils = await import('@fhevm/mock-utils').catch(err => {
+    throw new Error(`The mock relayer needs @fhevm/mock-utils: npm install --save-dev @fhevm/mock-utils (${err?.message ?? err})`);
+  });
+
+  const relayer = options.relayer ?? network.relayerUrl;
+  const provider = toRelayerProvider(relayer, network.chainId);
+
+  let metadata: MockRelayerMetadata;
+  try {
+    metadata = await provider.send('fhevm_relayer_metadata', []);
+  } catch (error) {
+    const where = typeof relayer === 'string' ? relayer : 'the given provider';
+    throw new RelayerUnavailableError(
+      `No fhevm mock relayer at ${where}. Start one with \`npx hardhat node\` (with @fhevm/hardhat-plugin).`,
+      error
+    );
+  }
+  assertMatchesNetwork(metadata, network);
+
+  options.logger?.debug(`🧪 Using the fhevm mock relayer of chain ${network.chainId}`);
+
+  const instance = await mockUtils.MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: network.aclContractAddress as `0x${string}`,
+      chainId: network.chainId,
+      gatewayChainId: network.gatewayChainId,
+      inputVerifierContractAddress: network.inputVerifierContractAddress as `0x${string}`,
+      kmsContractAddress: network.kmsContractAddress as `0x${string}`,
+      verifyingContractAddressDecryption: network.verifyingContractAddressDecryption as `0x${string}`,
+      verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification as `0x${string}`,
+    },
+    // Signers, threshold and EIP-712 domains are read from the verifier contracts
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} }
+  );
+
+  return { instance: instance as unknown as FhevmInstance, provider };
+}
+
+export interface MockRelayerServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+/** Fields of a JSON-RPC request or error the server reads; anything else is passed on as is */
+interface JsonRpcCall {
+  id?: unknown;
+  method?: unknown;
+  params?: unknown[];
+}
+
+interface JsonRpcError {
+  code?: unknown;
+  message?: string;
+  data?: unknown;
+}
+
+export interface MockRelayerServerOptions {
+  /** Defaults to 8546, next to a Hardhat node's 8545 */
+  port?: number;
+  host?: string;
+  /** Notes the URL the server listens on, e.g. `console` */
+  logger?: FhevmLogger;
+}
+
+/**
+ * Serve an in-process Hardhat network over HTTP JSON-RPC, so a browser app (or another process)
+ * can use it as both its RPC endpoint and its mock relayer. Node.js only.
+ */
+export async function startMockRelayerServer(
+  provider: ethers.Eip1193Provider,
+  options: MockRelayerServerOptions = {}
+): Promise<MockRelayerServer> {
+  const { port = 8546, host = '127.0.0.1', logger } = options;
+  // A non-literal specifier keeps Node built-ins out of browser bundles; unlike eval it also works in test runners
+  const httpModule = 'node:http';
+  const http: typeof import('node:http') = await import(/* @vite-ignore */ httpModule);
+
+  const answer = async (call: unknown) => {
+    const { id = null, method, params = [] } = (typeof call === 'object' && call !== null ? call : {}) as JsonRpcCall;
+    try {
+      const result = await provider.request({ method: String(method), params });
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      const { code = -32603, message = String(error), data } = (typeof error === 'object' && error !== null ? error : {}) as JsonRpcError;
+      return { jsonrpc: '2.0', id, error: { code, message, data } };
+    }
+  };
+
+  const server = http.createServer((req: IncomingMessage, res: ServerResponse) => {
+    // The app's dev server runs on another origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'content-type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk: Buffer) => { body += chunk; });
+    req.on('end', async () => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+        return;
+      }
+      const response = Array.isArray(payload) ? await Promise.all(payload.map(answer)) : await answer(payload);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      // Hardhat returns bigint-free JSON, but stay safe with custom providers
+      res.end(JSON.stringify(response, (_key, value) => typeof value === 'bigint' ? ethers.toQuantity(value) : value));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const url = `http://${host}:${(server.address() as AddressInfo).port}`;
+  logger?.debug(`🧪 Mock relayer listening on ${url}`);
+
+  return {
+    url,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * FHEVM network descriptors
+ * Everything the relayer SDK needs to talk to one fhevm deployment
+ */
+
+export interface FhevmNetworkConfig {
+  name: string;
+  /** Host chain id (the chain the contracts live on) */
+  chainId: number;
+  /** Gateway chain id the KMS signs decryptions for */
+  gatewayChainId: number;
+  aclContractAddress: string;
+  coprocessorContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** Decryption contract on the gateway chain, used as the EIP-712 verifying contract */
+  verifyingContractAddressDecryption: string;
+  /** Input verification contract on the gateway chain */
+  verifyingContractAddressInputVerification: string;
+  relayerUrl: string;
+  /** Default JSON-RPC endpoint for Node.js, where there is no injected wallet */
+  rpcUrl?: string;
+  /** No Zama relayer: relayerUrl is a Hardhat node serving the fhevm mock relayer */
+  mock?: boolean;
+}
+
+/**
+ * Shape of `fhevmtemp/precompiled-fhevm-host-contracts-addresses.json`,
+ * written by the fhevm Hardhat plugin for the contracts it deploys
+ */
+export interface FhevmHostContractAddresses {
+  ACLAddress: string;
+  CoprocessorAddress: string;
+  InputVerifierAddress: string;
+  KMSVerifierAddress?: string;
+  HCULimitAddress?: string;
+}
+
+export const SEPOLIA_NETWORK: FhevmNetworkConfig = {
+  name: 'sepolia',
+  chainId: 11155111,
+  gatewayChainId: 10901,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  coprocessorContractAddress: '0x92C920834Ec8941d2C77D188936E1f7A6f49c127',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  relayerUrl: 'https://relayer.testnet.zama.org',
+  rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+};
+
+/**
+ * Host contracts the fhevm Hardhat plugin deploys on a local node. Mirrors the plugin's
+ * fhevmtemp/precompiled-fhevm-host-contracts-addresses.json, plus the KMS verifier the node
+ * reports through `fhevm_relayer_metadata`, which that file does not list.
+ */
+export const HARDHAT_HOST_CONTRACT_ADDRESSES: Required<FhevmHostContractAddresses> = {
+  ACLAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  CoprocessorAddress: '0xe3a9105a3a932253A70F126eb1E3b589C643dD24',
+  InputVerifierAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+  KMSVerifierAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  HCULimitAddress: '0x233ff88A48c172d29F675403e6A8e302b0F032D9',
+};
+
+/**
+ * Build a network from the host contract addresses a Hardhat fhevm node deployed.
+ * The gateway side defaults to the values the Hardhat plugin's mock KMS signs with, and the KMS verifier
+ * to the plugin's unless `addresses.KMSVerifierAddress` or `overrides.kmsContractAddress` names another.
+ */
+export function networkFromHostContractAddresses(
+  addresses: FhevmHostContractAddresses,
+  overrides: Partial<FhevmNetworkConfig> = {}
+): FhevmNetworkConfig {
+  return {
+    name: 'hardhat',
+    chainId: 31337,
+    gatewayChainId: 10901,
+    aclContractAddress: addresses.ACLAddress,
+    coprocessorContractAddress: addresses.CoprocessorAddress,
+    kmsContractAddress: addresses.KMSVerifierAddress ?? HARDHAT_HOST_CONTRACT_ADDRESSES.KMSVerifierAddress,
+    inputVerifierContractAddress: addresses.InputVerifierAddress,
+    verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+    verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+    relayerUrl: 'http://127.0.0.1:8545',
+    rpcUrl: 'http://127.0.0.1:8545',
+    mock: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Local Hardhat fhevm node with the host contracts the fhevm Hardhat plugin deploys
+ */
+export const HARDHAT_NETWORK: FhevmNetworkConfig = networkFromHostContractAddresses(HARDHAT_HOST_CONTRACT_ADDRESSES);
+
+export const FHEVM_NETWORKS = {
+  sepolia: SEPOLIA_NETWORK,
+  hardhat: HARDHAT_NETWORK,
+} as const;
+
+export type FhevmNetworkName = keyof typeof FHEVM_NETWORKS;
+
+export type FhevmNetworkInput = FhevmNetworkName | FhevmNetworkConfig;
+
+/**
+ * Resolve a preset name or a custom descriptor, defaulting to Sepolia
+ */
+export function resolveFhevmNetwork(network: FhevmNetworkInput = 'sepolia'): FhevmNetworkConfig {
+  if (typeof network !== 'string') return network;
+
+  const preset = FHEVM_NETWORKS[network];
+  if (!preset) {
+    throw new Error(`Unknown FHEVM network "${network}". Use one of: ${Object.keys(FHEVM_NETWORKS).join(', ')}`);
+  }
+  return preset;
+}
+
+/**
+ * Find the preset for a chain id, e.g. the one the connected wallet is on
+ */
+export function getFhevmNetworkByChainId(chainId: number): FhevmNetworkConfig | undefined {
+  return Object.values(FHEVM_NETWORKS).find(network => network.chainId === chainId);
+}
+
+/**
+ * Map a descriptor onto the relayer SDK's `createInstance` config
+ */
+export function toRelayerConfig(network: FhevmNetworkConfig, provider: unknown) {
+  return {
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    relayerUrl: network.relayerUrl,
+    network: provider,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Signer-backed EIP-1193 provider for Node.js
+ * Lets scripts and backend services use the relayer SDK without an injected wallet
+ */
+
+import { ethers } from "ethers";
+
+/** An ethers Signer, a raw private key or a BIP-39 mnemonic */
+export type NodeSignerSource =
+  | ethers.Signer
+  | { privateKey: string }
+  | { mnemonic: string; path?: string };
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+function isSigner(source: NodeSignerSource): source is ethers.Signer {
+  return typeof (source as ethers.Signer).getAddress === 'function';
+}
+
+/**
+ * Turn a signer source into an ethers Signer connected to the provider
+ */
+export function resolveNodeSigner(source: NodeSignerSource, provider: ethers.Provider): ethers.Signer {
+  // Checked first: ethers wallets also expose `privateKey` / `mnemonic`
+  if (isSigner(source)) {
+    // Leave a signer that already has a provider alone, it may be a custom one
+    return source.provider ? source : source.connect(provider);
+  }
+  if ('privateKey' in source) {
+    return new ethers.Wallet(source.privateKey, provider);
+  }
+  return ethers.HDNodeWallet.fromPhrase(source.mnemonic, undefined, source.path).connect(provider);
+}
+
+/**
+ * Map a JSON-RPC transaction object (hex quantities, `gas`) onto an ethers request
+ */
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  const quantity = (value: unknown) => (value == null ? undefined : BigInt(value as string));
+  return {
+    to: tx.to ?? undefined,
+    data: tx.data ?? tx.input ?? undefined,
+    value: quantity(tx.value),
+    gasLimit: quantity(tx.gas ?? tx.gasLimit),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    nonce: tx.nonce == null ? undefined : Number(tx.nonce),
+    type: tx.type == null ? undefined : Number(tx.type),
+  };
+}
+
+/**
+ * EIP-1193 provider that answers account, signing and transaction methods with
+ * the signer and forwards everything else to the JSON-RPC provider.
+ * Without a signer it is read-only: no accounts, and signing methods throw.
+ */
+export function createNodeEip1193Provider(
+  provider: ethers.JsonRpcProvider,
+  chainId: number,
+  signer?: ethers.Signer
+): Eip1193Provider {
+  const requireSigner = async (from?: string) => {
+    if (!signer) {
+      throw new Error('No signer configured. Pass a private key, mnemonic or Signer to initializeFheInstance().');
+    }
+    if (from) {
+      const address = await signer.getAddress();
+      if (ethers.getAddress(from) !== address) {
+        throw new Error(`Cannot sign for ${from}: the configured signer is ${address}`);
+      }
+    }
+    return signer;
+  };
+
+  return {
+    request: async ({ method, params = [] }) => {
+      const args = Array.isArray(params) ? params : [params];
+
+      switch (method) {
+        case 'eth_chainId':
+          return ethers.toQuantity(chainId);
+        case 'net_version':
+          return String(chainId);
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_sendTransaction': {
+          const tx = args[0] as Record<string, any>;
+          const wallet = await requireSigner(tx.from);
+          const response = await wallet.sendTransaction(toTransactionRequest(tx));
+          return response.hash;
+        }
+        case 'eth_signTypedData_v4': {
+          const [from, data] = args as [string, string | Record<string, any>];
+          const wallet = await requireSigner(from);
+          const typedData = typeof data === 'string' ? JSON.parse(data) : data;
+          // ethers derives the domain type itself and rejects it in `types`
+          const { EIP712Domain: _domain, ...types } = typedData.types;
+          return wallet.signTypedData(typedData.domain, types, typedData.message);
+        }
+        case 'personal_sign': {
+          const [message, from] = args as [string, string];
+          const wallet = await requireSigner(from);
+          return wallet.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+        }
+        case 'wallet_switchEthereumChain': {
+          const [{ chainId: requested }] = args as [{ chainId: string }];
+          if (Number(requested) !== chainId) {
+            throw new Error(`Node provider is bound to chain ${chainId}, cannot switch to ${Number(requested)}`);
+          }
+          return null;
+        }
+        default:
+          return provider.send(method, args);
+      }
+    },
+    // A fixed RPC endpoint and signer never change accounts or chains
+    on: () => {},
+    removeListener: () => {}
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Coalescing decryption queue
+ * Single-value decryptions made close together go to the relayer as one batch: one round trip, one signature
+ */
+
+import { ethers } from "ethers";
+
+import { normalizeHandle } from "./handles.js";
+import { TypedClearValue, toTypedClearValue } from "./values.js";
+import { FhevmSigner, HandleContractPair, PublicDecryptResults } from "./types.js";
+import { FhevmErrorCode, getFhevmErrorCode } from "./errors.js";
+
+/** What the queue needs from a client */
+export interface DecryptionBackend {
+  userDecryptBatch(pairs: HandleContractPair[], signer?: FhevmSigner): Promise<Record<string, TypedClearValue>>;
+  publicDecrypt(handles: string[]): Promise<PublicDecryptResults>;
+}
+
+export interface DecryptionQueueOptions {
+  /** How long to collect calls before sending them; 0 (default) batches the calls made in the same tick */
+  windowMs?: number;
+  /** Batches sent to the relayer at once (default 2) */
+  maxConcurrency?: number;
+}
+
+interface QueuedDecryption {
+  handle: string;
+  /** Unset for public decryption */
+  contractAddress?: string;
+  signer?: FhevmSigner;
+  resolve(value: TypedClearValue): void;
+  reject(error: unknown): void;
+}
+
+export class DecryptionQueue {
+  private readonly windowMs: number;
+  private readonly maxConcurrency: number;
+  /** Promise per request key, from the first call until the answer, so repeated handles share it */
+  private readonly requests = new Map<string, Promise<TypedClearValue>>();
+  private pending: QueuedDecryption[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly tasks: (() => Promise<void>)[] = [];
+  private running = 0;
+  private readonly signerIds = new WeakMap<object, number>();
+  private nextSignerId = 0;
+
+  constructor(private readonly backend: DecryptionBackend, options: DecryptionQueueOptions = {}) {
+    this.windowMs = options.windowMs ?? 0;
+    this.maxConcurrency = options.maxConcurrency ?? 2;
+
+    if (!Number.isInteger(this.maxConcurrency) || this.maxConcurrency < 1) {
+      throw new Error('maxConcurrency must be a positive integer');
+    }
+  }
+
+  /**
+   * User-decrypt one handle; calls with the same signer in the same window share one request
+   */
+  userDecrypt(handle: string, contractAddress: string, signer?: FhevmSigner): Promise<TypedClearValue> {
+    const hex = normalizeHandle(handle);
+    const contract = ethers.getAddress(contractAddress);
+    return this.enqueue(`user:${this.signerId(signer)}:${contract}:${hex}`, { handle: hex, contractAddress: contract, signer });
+  }
+
+  /**
+   * Publicly decrypt one handle for display. The KMS proof covers the whole batch,
+   * so use client.publicDecrypt() for values that are submitted back to a contract.
+   */
+  publicDecrypt(handle: string): Promise<TypedClearValue> {
+    const hex = normalizeHandle(handle);
+    return this.enqueue(`public:${hex}`, { handle: hex });
+  }
+
+  /**
+   * Send what has been collected now instead of at the end of the window
+   */
+  flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.pending;
+    this.pending = [];
+
+    const publicBatch = batch.filter(item => item.contractAddress === undefined);
+    if (publicBatch.length > 0) {
+      this.schedule(() => this.run(publicBatch));
+    }
+
+    // One signature per signer, so user decryptions are batched per signer
+    const bySigner = new Map<FhevmSigner | undefined, QueuedDecryption[]>();
+    for (const item of batch) {
+      if (item.contractAddress === undefined) continue;
+      bySigner.set(item.signer, [...(bySigner.get(item.signer) ?? []), item]);
+    }
+    for (const items of bySigner.values()) {
+      this.schedule(() => this.run(items));
+    }
+  }
+
+  private enqueue(key: string, request: Omit<QueuedDecryption, 'resolve' | 'reject'>) {
+    const existing = this.requests.get(key);
+    if (existing) return existing;
+
+    const promise = new Promise<TypedClearValue>((resolve, reject) => {
+      this.pending.push({ ...request, resolve, reject });
+    });
+    this.requests.set(key, promise);
+    const forget = () => this.requests.delete(key);
+    promise.then(forget, forget);
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.windowMs);
+    }
+    return promise;
+  }
+
+  private async run(items: QueuedDecryption[]) {
+    try {
+      const values = await this.request(items);
+      for (const item of items) {
+        const value = values[item.handle];
+        if (value === undefined) {
+          item.reject(new Error(`No clear value returned for handle ${item.handle}`));
+        } else {
+          item.resolve(value);
+        }
+      }
+    } catch (error) {
+      // The relayer refuses a whole batch for one bad handle; retry one by one so the others still decrypt.
+      // Mixed contracts may then need new signatures, as authorizations are per contract set.
+      const code = getFhevmErrorCode(error);
+      if (items.length > 1 && (code === FhevmErrorCode.ACL_DENIED || code === FhevmErrorCode.INVALID_HANDLE)) {
+        for (const item of items) {
+          this.schedule(() => this.run([item]));
+        }
+        return;
+      }
+      for (const item of items) item.reject(error);
+    }
+  }
+
+  private async request(items: QueuedDecryption[]): Promise<Record<string, TypedClearValue>> {
+    const first = items[0];
+    if (first.contractAddress === undefined) {
+      const result = await this.backend.publicDecrypt(items.map(item => item.handle));
+      const values: Record<string, TypedClearValue> = {};
+      for (const [handle, raw] of Object.entries(result.clearValues)) {
+        values[normalizeHandle(handle)] = toTypedClearValue(handle, raw);
+      }
+      return values;
+    }
+    return this.backend.userDecryptBatch(
+      items.map(item => ({ handle: item.handle, contractAddress: item.contractAddress! })),
+      first.signer
+    );
+  }
+
+  private schedule(task: () => Promise<void>) {
+    this.tasks.push(task);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.running < this.maxConcurrency && this.tasks.length > 0) {
+      const task = this.tasks.shift()!;
+      this.running++;
+      task().finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private signerId(signer?: FhevmSigner) {
+    if (!signer) return 'default';
+    let id = this.signerIds.get(signer);
+    if (id === undefined) {
+      id = this.nextSignerId++;
+      this.signerIds.set(signer, id);
+    }
+    return id;
+  }
+}
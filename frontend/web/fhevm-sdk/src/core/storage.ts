@@ -0,0 +1,277 @@
+/**
+ * Persistent key-value storage for the SDK
+ * Encrypted IndexedDB in the browser, an owner-only JSON file in Node.js, memory as the fallback
+ */
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export const SDK_DATABASE_NAME = 'fhevm-sdk';
+
+/** Object stores of the SDK database; bump the version when adding one. 'cache-keys' holds the keys of the encrypted stores. */
+const SDK_DATABASE_VERSION = 2;
+const SDK_OBJECT_STORES = ['decryption-authorizations', 'decrypted-values', 'cache-keys'] as const;
+
+export type SdkObjectStore = typeof SDK_OBJECT_STORES[number];
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let sdkDatabase: Promise<IDBDatabase> | null = null;
+
+function openSdkDatabase() {
+  if (!sdkDatabase) {
+    sdkDatabase = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(SDK_DATABASE_NAME, SDK_DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of SDK_OBJECT_STORES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      sdkDatabase = null;
+      throw err;
+    });
+  }
+  return sdkDatabase;
+}
+
+export class IndexedDbStore<T> implements KeyValueStore<T> {
+  constructor(private readonly storeName: SdkObjectStore) {}
+
+  async get(key: string) {
+    return promisify<T | undefined>((await this.objectStore('readonly')).get(key));
+  }
+
+  async set(key: string, value: T) {
+    await promisify((await this.objectStore('readwrite')).put(value, key));
+  }
+
+  async delete(key: string) {
+    await promisify((await this.objectStore('readwrite')).delete(key));
+  }
+
+  async clear() {
+    await promisify((await this.objectStore('readwrite')).clear());
+  }
+
+  async keys() {
+    const keys = await promisify((await this.objectStore('readonly')).getAllKeys());
+    return keys.map(String);
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await openSdkDatabase();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
+
+/** Entry of an encrypted store: the JSON of the value, AES-GCM encrypted with the entry's key as additional data */
+interface EncryptedEntry {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/**
+ * Whether EncryptedIndexedDbStore can run here
+ */
+export function supportsEncryptedStore() {
+  return typeof indexedDB !== 'undefined' && !!globalThis.crypto?.subtle;
+}
+
+/**
+ * IndexedDB store whose values are encrypted under a non-extractable WebCrypto key, one key per object store.
+ * Values must survive a JSON round trip.
+ */
+export class EncryptedIndexedDbStore<T> implements KeyValueStore<T> {
+  private readonly entries: IndexedDbStore<EncryptedEntry>;
+  private encryptionKey: Promise<CryptoKey> | null = null;
+
+  constructor(private readonly storeName: SdkObjectStore) {
+    this.entries = new IndexedDbStore<EncryptedEntry>(storeName);
+  }
+
+  async get(key: string) {
+    const entry = await this.entries.get(key);
+    if (!entry) return undefined;
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: entry.iv, additionalData: new TextEncoder().encode(key) },
+        await this.getEncryptionKey(),
+        entry.data
+      );
+      return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+    } catch {
+      // Written in plaintext by an earlier version, or under a key another tab replaced: a miss
+      await this.entries.delete(key).catch(() => {});
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: T) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) },
+      await this.getEncryptionKey(),
+      new TextEncoder().encode(JSON.stringify(value))
+    );
+    await this.entries.set(key, { iv, data });
+  }
+
+  async delete(key: string) {
+    await this.entries.delete(key);
+  }
+
+  async clear() {
+    await this.entries.clear();
+  }
+
+  async keys() {
+    return this.entries.keys();
+  }
+
+  private getEncryptionKey() {
+    if (!this.encryptionKey) {
+      this.encryptionKey = this.loadEncryptionKey().catch(err => {
+        this.encryptionKey = null;
+        throw err;
+      });
+    }
+    return this.encryptionKey;
+  }
+
+  private async loadEncryptionKey() {
+    // IndexedDB stores the CryptoKey itself; being non-extractable, its bytes never reach script or disk
+    const keys = new IndexedDbStore<CryptoKey>('cache-keys');
+    let key = await keys.get(this.storeName);
+    if (!key) {
+      key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await keys.set(this.storeName, key);
+    }
+    return key;
+  }
+}
+
+/**
+ * Node.js built-in module. A non-literal specifier keeps it out of browser bundles; unlike eval it also works in test runners.
+ */
+function importNodeBuiltin(specifier: string) {
+  return import(/* @vite-ignore */ specifier);
+}
+
+/**
+ * Whole store in one JSON file, readable by the owner only.
+ * Writes are serialized so concurrent set() calls do not drop entries.
+ */
+export class FileStore<T> implements KeyValueStore<T> {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string) {
+    return (await this.read())[key];
+  }
+
+  async set(key: string, value: T) {
+    await this.update(entries => { entries[key] = value; });
+  }
+
+  async delete(key: string) {
+    await this.update(entries => { delete entries[key]; });
+  }
+
+  async clear() {
+    await this.update(entries => {
+      for (const key of Object.keys(entries)) delete entries[key];
+    });
+  }
+
+  async keys() {
+    return Object.keys(await this.read());
+  }
+
+  private async read(): Promise<Record<string, T>> {
+    const fs = await importNodeBuiltin('node:fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return {};
+      throw err;
+    }
+  }
+
+  private update(mutate: (entries: Record<string, T>) => void) {
+    const next = this.writing.then(async () => {
+      const fs = await importNodeBuiltin('node:fs/promises');
+      const path = await importNodeBuiltin('node:path');
+      const entries = await this.read();
+      mutate(entries);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+      await fs.writeFile(this.filePath, JSON.stringify(entries, null, 2), { mode: 0o600 });
+      // The mode above only applies when the file is created
+      await fs.chmod(this.filePath, 0o600);
+    });
+    this.writing = next.catch(() => {});
+    return next;
+  }
+}
+
+export class MemoryStore<T> implements KeyValueStore<T> {
+  private readonly entries = new Map<string, T>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, value: T) {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+
+  async keys() {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Default file for a store in Node.js: ~/.fhevm-sdk/<name>.json
+ */
+export async function defaultStoreFilePath(name: string) {
+  const os = await importNodeBuiltin('node:os');
+  const path = await importNodeBuiltin('node:path');
+  return path.join(os.homedir(), '.fhevm-sdk', `${name}.json`);
+}
+
+/**
+ * Environment-aware store: encrypted IndexedDB in the browser, an owner-only JSON file in Node.js, memory otherwise
+ * (e.g. pages served over plain http, where WebCrypto is unavailable)
+ */
+export async function createPersistentStore<T>(name: SdkObjectStore): Promise<KeyValueStore<T>> {
+  if (supportsEncryptedStore()) {
+    return new EncryptedIndexedDbStore<T>(name);
+  }
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    return new FileStore<T>(await defaultStoreFilePath(name));
+  }
+  return new MemoryStore<T>();
+}
@@ -0,0 +1,125 @@
+/**
+ * FHEVM SDK types
+ * Mirror the relayer SDK (0.3.x) shapes so the browser (CDN script) and Node.js builds share one surface
+ */
+
+import type { ethers } from "ethers";
+
+/** Clear value of a decrypted handle: integers as bigint, ebool as boolean, eaddress as hex */
+export type ClearValue = bigint | boolean | `0x${string}`;
+
+export type UserDecryptResults = Record<string, ClearValue>;
+
+export interface PublicDecryptResults {
+  clearValues: Record<string, ClearValue>;
+  /** ABI encoding of the clear values, in handle order, as `FHE.checkSignatures` expects */
+  abiEncodedClearValues: `0x${string}`;
+  /** KMS signatures over the clear values */
+  decryptionProof: `0x${string}`;
+}
+
+export interface HandleContractPair {
+  handle: Uint8Array | string;
+  contractAddress: string;
+}
+
+/** Ciphertext handles plus the ZK proof the input verifier checks */
+export interface EncryptedInput {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+/** One encrypted value with its proof, ready for an `externalEuintXX, bytes` contract argument pair */
+export interface EncryptedParam {
+  encryptedData: Uint8Array;
+  proof: Uint8Array;
+}
+
+/** Encrypted input types accepted by `FHE.fromExternal` */
+export type FheInputType = 'ebool' | 'euint8' | 'euint16' | 'euint32' | 'euint64' | 'euint128' | 'euint256' | 'eaddress';
+
+export type EncryptedInputSpec =
+  | { type: 'ebool'; value: boolean | number | bigint }
+  | { type: 'eaddress'; value: string }
+  | { type: Exclude<FheInputType, 'ebool' | 'eaddress'>; value: number | bigint };
+
+export interface TypedHandle {
+  type: FheInputType;
+  handle: Uint8Array;
+}
+
+/** Several values encrypted together: handles in schema order, all covered by one proof */
+export interface EncryptedInputs {
+  handles: TypedHandle[];
+  inputProof: Uint8Array;
+}
+
+/** Where an encryption is: waiting for the worker's WASM, encrypting and proving, or finished */
+export type EncryptionStage = 'initializing' | 'encrypting' | 'done';
+
+export interface EncryptionProgress {
+  stage: EncryptionStage;
+}
+
+export interface EncryptOptions {
+  /** Cancels the encryption: mid-proof in worker mode, otherwise only before it starts */
+  signal?: AbortSignal;
+  onProgress?(progress: EncryptionProgress): void;
+}
+
+export interface EncryptedInputBuilder {
+  addBool(value: boolean | number | bigint): EncryptedInputBuilder;
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add16(value: number | bigint): EncryptedInputBuilder;
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  add128(value: number | bigint): EncryptedInputBuilder;
+  add256(value: number | bigint): EncryptedInputBuilder;
+  addAddress(value: string): EncryptedInputBuilder;
+  getBits(): number[];
+  encrypt(): Promise<EncryptedInput>;
+}
+
+export interface Eip712TypedData {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  message: Record<string, unknown>;
+  primaryType: string;
+  types: Record<string, { name: string; type: string }[]>;
+}
+
+export interface FhevmInstance {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Eip712TypedData;
+  publicDecrypt(handles: (string | Uint8Array)[]): Promise<PublicDecryptResults>;
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<UserDecryptResults>;
+  getPublicKey(): { publicKeyId: string; publicKey: Uint8Array } | null;
+  getPublicParams(bits: 2048): { publicParams: Uint8Array; publicParamsId: string } | null;
+}
+
+/** What user decryption needs from a signer: an ethers Signer, a wagmi-backed adapter, ... */
+export type FhevmSigner = Pick<ethers.Signer, 'getAddress' | 'signTypedData'>;
+
+/** Receives the SDK's per-call diagnostics; `console` fits */
+export interface FhevmLogger {
+  debug(message?: unknown, ...details: unknown[]): void;
+}
@@ -0,0 +1,143 @@
+/**
+ * Typed clear values
+ * Decrypted values keep the FHE type of their handle: euintXX as bigint, ebool as boolean, eaddress as checksummed address
+ */
+
+import { ethers } from "ethers";
+
+import { getHandleType, normalizeHandle } from "./handles.js";
+import { ClearValue, FheInputType } from "./types.js";
+
+export type TypedClearValue = bigint | boolean | string;
+
+/**
+ * Convert a raw relayer value according to the handle's FHE type
+ */
+export function toTypedClearValue(handle: string | Uint8Array, raw: ClearValue): TypedClearValue {
+  const type = getHandleType(handle);
+
+  if (type === 'ebool') {
+    return typeof raw === 'boolean' ? raw : BigInt(raw) !== 0n;
+  }
+  if (type === 'eaddress') {
+    // A 160-bit value may come back as bigint or as unpadded hex
+    return ethers.getAddress(ethers.toBeHex(BigInt(raw), 20));
+  }
+  return BigInt(raw);
+}
+
+/** Solidity type each FHE type decrypts to, as `FHE.checkSignatures` decodes it */
+export const SOLIDITY_TYPE_BY_FHE_TYPE: Record<FheInputType, string> = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  euint256: 'uint256',
+  eaddress: 'address',
+};
+
+/**
+ * ABI-encode clear values in handle order, each with the Solidity type of its handle.
+ * Out-of-range values and missing handles throw instead of being encoded.
+ */
+export function encodeClearValues(
+  handles: (string | Uint8Array)[],
+  clearValues: Record<string, ClearValue | TypedClearValue>
+): `0x${string}` {
+  const types: string[] = [];
+  const values: unknown[] = [];
+  for (const handle of handles) {
+    const hex = normalizeHandle(handle);
+    const raw = clearValues[hex] ?? (typeof handle === 'string' ? clearValues[handle] : undefined);
+    if (raw === undefined) {
+      throw new Error(`No clear value for handle ${hex}`);
+    }
+    types.push(SOLIDITY_TYPE_BY_FHE_TYPE[getHandleType(hex)]);
+    values.push(toTypedClearValue(hex, raw as ClearValue));
+  }
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values) as `0x${string}`;
+}
+
+export function asBigInt(value: TypedClearValue): bigint {
+  if (typeof value !== 'bigint') {
+    throw new TypeError(`Expected an encrypted integer, got ${typeof value === 'boolean' ? 'ebool' : 'eaddress'}`);
+  }
+  return value;
+}
+
+export function asBoolean(value: TypedClearValue): boolean {
+  if (typeof value !== 'boolean') {
+    throw new TypeError(`Expected an ebool, got ${typeof value === 'bigint' ? 'an encrypted integer' : 'eaddress'}`);
+  }
+  return value;
+}
+
+export function asAddress(value: TypedClearValue): string {
+  if (typeof value !== 'string') {
+    throw new TypeError(`Expected an eaddress, got ${typeof value === 'bigint' ? 'an encrypted integer' : 'ebool'}`);
+  }
+  return value;
+}
+
+/**
+ * Number for display, refusing values a JS number cannot hold exactly
+ */
+export function toSafeNumber(value: TypedClearValue): number {
+  const n = asBigInt(value);
+  if (n > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new RangeError(`${n} does not fit in a JS number, keep it as a bigint`);
+  }
+  return Number(n);
+}
+
+export interface FixedPointFormatOptions {
+  /** Round (half up) to at most this many fraction digits */
+  maxFractionDigits?: number;
+  /** Always show this many fraction digits, e.g. 2 for prices */
+  minFractionDigits?: number;
+}
+
+/**
+ * Integer with `decimals` implied fraction digits to a decimal string: (12345n, 2) => "123.45"
+ */
+export function formatFixedPoint(value: bigint, decimals: number, options: FixedPointFormatOptions = {}): string {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new RangeError('decimals must be a non-negative integer');
+  }
+
+  let scaled = value;
+  let digits = decimals;
+  const { maxFractionDigits, minFractionDigits = 0 } = options;
+  if (maxFractionDigits !== undefined && maxFractionDigits < decimals) {
+    const divisor = 10n ** BigInt(decimals - maxFractionDigits);
+    const half = divisor / 2n;
+    scaled = (scaled < 0n ? scaled - half : scaled + half) / divisor;
+    digits = maxFractionDigits;
+  }
+
+  const negative = scaled < 0n;
+  const abs = (negative ? -scaled : scaled).toString().padStart(digits + 1, '0');
+  const whole = abs.slice(0, abs.length - digits);
+  const fraction = abs.slice(abs.length - digits).replace(/0+$/, '').padEnd(minFractionDigits, '0');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Decimal string to an integer with `decimals` implied fraction digits: ("123.45", 2) => 12345n.
+ * Rejects more fraction digits than the scale holds instead of silently truncating.
+ */
+export function parseFixedPoint(text: string, decimals: number): bigint {
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`"${text}" is not a decimal number`);
+  }
+  const [, sign, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new RangeError(`"${text}" has more than ${decimals} fraction digits`);
+  }
+  const value = BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+  return sign ? -value : value;
+}
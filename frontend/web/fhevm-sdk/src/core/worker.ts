@@ -0,0 +1,231 @@
+/**
+ * Worker-backed encryption
+ * TFHE encryption and ZK proof generation run in a dedicated Web Worker, so the page keeps rendering meanwhile
+ */
+
+import { FhevmNetworkConfig, toRelayerConfig } from "./networks.js";
+import { addInputSpecs } from "./inputs.js";
+import { EncryptOptions, EncryptedInput, EncryptedInputBuilder, EncryptedInputSpec, EncryptionProgress, FhevmLogger } from "./types.js";
+import { CancelledError, toFhevmError } from "./errors.js";
+
+/** Same build as the page's script tag */
+export const DEFAULT_RELAYER_SDK_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs';
+
+export interface FhevmWorkerOptions {
+  /**
+   * Start `core/encryption.worker` as a classic worker. Bundlers only pick up worker files spelled out
+   * where the worker is created, e.g. with Vite:
+   * `() => new Worker(new URL('../fhevm-sdk/src/core/encryption.worker.ts', import.meta.url))`
+   */
+  createWorker: () => Worker;
+  /** Relayer SDK bundle the worker loads */
+  sdkUrl?: string;
+  /** WASM files used when the CDN ones cannot be loaded (defaults to the ones in the public folder) */
+  wasm?: { tfheParams: string; kmsParams: string };
+  /** Notes when the worker is ready; defaults to the client's logger */
+  logger?: FhevmLogger;
+}
+
+export type Keypair = { publicKey: string; privateKey: string };
+
+type EncryptedInputMethod = 'addBool' | 'add8' | 'add16' | 'add32' | 'add64' | 'add128' | 'add256' | 'addAddress';
+
+/** One add* call on the encrypted input builder, validated on the page and replayed in the worker */
+export type EncryptedInputCall = {
+  [M in EncryptedInputMethod]: { method: M; value: Parameters<EncryptedInputBuilder[M]>[0] };
+}[EncryptedInputMethod];
+
+/** Messages from the page to the worker */
+export type EncryptionWorkerRequest =
+  | {
+      id: number;
+      type: 'init';
+      config: ReturnType<typeof toRelayerConfig>;
+      sdkUrl: string;
+      wasm: { tfheParams: string; kmsParams: string };
+    }
+  | { id: number; type: 'encrypt'; contractAddress: string; userAddress: string; inputs: EncryptedInputCall[] }
+  | { id: number; type: 'generateKeypair' };
+
+/** Messages from the worker to the page, answering the request with the same id */
+export type EncryptionWorkerResponse =
+  | { id: number; type: 'progress'; progress: EncryptionProgress }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; error: { name: string; message: string } };
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+interface PendingCall {
+  resolve(result: unknown): void;
+  reject(error: unknown): void;
+  onProgress?(progress: EncryptionProgress): void;
+}
+
+/**
+ * Errors cross the message channel as plain data and are classified here, like errors on the page
+ */
+function fromWorkerError({ name, message }: { name: string; message: string }) {
+  const error = new Error(message);
+  error.name = name;
+  return toFhevmError(error);
+}
+
+/**
+ * Run addInputSpecs against a recording builder, so range errors surface on the page with their InputRangeError class
+ */
+function recordInputCalls(specs: EncryptedInputSpec[]): EncryptedInputCall[] {
+  const calls: EncryptedInputCall[] = [];
+  const record = (method: EncryptedInputMethod) => (value: unknown) => {
+    calls.push({ method, value } as EncryptedInputCall);
+    return recorder;
+  };
+  const recorder: EncryptedInputBuilder = {
+    addBool: record('addBool'),
+    add8: record('add8'),
+    add16: record('add16'),
+    add32: record('add32'),
+    add64: record('add64'),
+    add128: record('add128'),
+    add256: record('add256'),
+    addAddress: record('addAddress'),
+    getBits: () => [],
+    encrypt: () => Promise.reject(new Error('Recorded inputs are encrypted by the worker')),
+  };
+  addInputSpecs(recorder, specs);
+  return calls;
+}
+
+export class FhevmEncryptionWorker {
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  private isReady = false;
+  private nextId = 0;
+  private readonly calls = new Map<number, PendingCall>();
+  /** Requests run one at a time, so aborting the running one can terminate the worker without hitting others */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly network: FhevmNetworkConfig,
+    private readonly rpcUrl: string,
+    private readonly options: FhevmWorkerOptions
+  ) {}
+
+  /**
+   * Start the worker and load the relayer SDK and its WASM in it. Concurrent calls share one start.
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.start().catch(err => {
+        this.terminate(err);
+        throw err;
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Encrypt typed values for a contract call in the worker
+   */
+  async encrypt(contractAddress: string, userAddress: string, specs: EncryptedInputSpec[], options: EncryptOptions = {}) {
+    const inputs = recordInputCalls(specs);
+    return this.call<EncryptedInput>({ type: 'encrypt', contractAddress, userAddress, inputs }, options);
+  }
+
+  /**
+   * Keypair for a user-decryption authorization, generated in the worker
+   */
+  generateKeypair(options: EncryptOptions = {}) {
+    return this.call<Keypair>({ type: 'generateKeypair' }, options);
+  }
+
+  /**
+   * Stop the worker; calls in flight are rejected. The next call starts a new one.
+   */
+  terminate(reason: unknown = new Error('Encryption worker was terminated')) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+    this.isReady = false;
+    for (const call of this.calls.values()) call.reject(reason);
+    this.calls.clear();
+  }
+
+  private call<T>(request: DistributiveOmit<EncryptionWorkerRequest, 'id'>, options: EncryptOptions): Promise<T> {
+    const run = this.queue.then(() => this.run<T>(request, options));
+    this.queue = run.catch(() => {});
+
+    const { signal } = options;
+    if (!signal) return run;
+
+    // Waiting behind other requests: leave the queue right away
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new CancelledError('Encryption cancelled', signal.reason));
+      signal.addEventListener('abort', onAbort, { once: true });
+      run.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async run<T>(request: DistributiveOmit<EncryptionWorkerRequest, 'id'>, { signal, onProgress }: EncryptOptions) {
+    if (signal?.aborted) throw new CancelledError('Encryption cancelled', signal.reason);
+
+    if (!this.isReady) onProgress?.({ stage: 'initializing' });
+    await this.init();
+    if (signal?.aborted) throw new CancelledError('Encryption cancelled', signal.reason);
+
+    // WASM proof generation cannot be interrupted, so cancelling the running request terminates the worker
+    const onAbort = () => this.terminate(new CancelledError('Encryption cancelled', signal?.reason));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await this.post<T>(request, onProgress);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private post<T>(request: DistributiveOmit<EncryptionWorkerRequest, 'id'>, onProgress?: (progress: EncryptionProgress) => void) {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(new Error('Encryption worker is not running'));
+    }
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.calls.set(id, { resolve: result => resolve(result as T), reject, onProgress });
+      worker.postMessage({ ...request, id } as EncryptionWorkerRequest);
+    });
+  }
+
+  private async start() {
+    const worker = this.options.createWorker();
+    this.worker = worker;
+
+    worker.onmessage = (event: MessageEvent<EncryptionWorkerResponse>) => {
+      const message = event.data;
+      const call = this.calls.get(message.id);
+      if (!call) return;
+
+      if (message.type === 'progress') {
+        call.onProgress?.(message.progress);
+        return;
+      }
+      this.calls.delete(message.id);
+      if (message.type === 'result') {
+        call.resolve(message.result);
+      } else {
+        call.reject(fromWorkerError(message.error));
+      }
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      this.terminate(new Error(`Encryption worker failed: ${event.message}`));
+    };
+
+    await this.post<void>({
+      type: 'init',
+      config: toRelayerConfig(this.network, this.rpcUrl),
+      sdkUrl: this.options.sdkUrl ?? DEFAULT_RELAYER_SDK_URL,
+      wasm: this.options.wasm ?? { tfheParams: '/tfhe_bg.wasm', kmsParams: '/kms_lib_bg.wasm' },
+    });
+    this.isReady = true;
+    this.options.logger?.debug('✅ FHEVM encryption worker ready');
+  }
+}
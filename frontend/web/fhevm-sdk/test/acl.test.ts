@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, inject, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import { AclDeniedError, FhevmAcl, FhevmErrorCode } from '../src/core/index.js';
+import { BUYER_PRICE, BargainFixture, createTestClient, deployBargainSession, testNetwork } from './fixtures.js';
+
+let fixture: BargainFixture;
+
+beforeAll(async () => {
+  fixture = await deployBargainSession();
+});
+
+describe('FhevmAcl', () => {
+  let provider: ethers.JsonRpcProvider;
+  let acl: FhevmAcl;
+
+  beforeAll(() => {
+    provider = new ethers.JsonRpcProvider(inject('rpcUrl'), 31337, { staticNetwork: true });
+    acl = new FhevmAcl(testNetwork().aclContractAddress, provider);
+  });
+
+  afterAll(() => provider.destroy());
+
+  it('reads user, contract and public permissions', async () => {
+    const { buyerPrice, sellerPrice, match } = fixture.handles;
+    expect(await acl.canUserDecrypt(buyerPrice, fixture.buyer.address, fixture.contractAddress)).toBe(true);
+    expect(await acl.canUserDecrypt(sellerPrice, fixture.buyer.address, fixture.contractAddress)).toBe(false);
+    expect(await acl.canUserDecrypt(buyerPrice, fixture.outsider.address)).toBe(false);
+    // The user alone is not enough: the contract the handle is read through must be allowed too
+    expect(await acl.canUserDecrypt(buyerPrice, fixture.buyer.address, fixture.outsider.address)).toBe(false);
+
+    expect(await acl.isAllowedForDecryption(match)).toBe(true);
+    expect(await acl.isAllowedForDecryption(buyerPrice)).toBe(false);
+  });
+
+  it('names every refused handle', async () => {
+    const { buyerPrice, sellerPrice, match } = fixture.handles;
+    const pairs = [buyerPrice, sellerPrice, match].map(handle => ({ handle, contractAddress: fixture.contractAddress }));
+
+    const attempt = acl.assertUserDecryptAllowed(pairs, fixture.seller.address);
+    await expect(attempt).rejects.toBeInstanceOf(AclDeniedError);
+    await expect(attempt).rejects.toThrow(buyerPrice);
+    await expect(acl.assertUserDecryptAllowed(pairs.slice(1), fixture.seller.address)).resolves.toBeUndefined();
+
+    await expect(acl.assertPublicDecryptAllowed([match, sellerPrice])).rejects.toThrow(
+      `Not allowed for public decryption: ${sellerPrice}`
+    );
+  });
+});
+
+describe('ACL pre-flight', () => {
+  it('refuses a user decryption before any signature or relayer call', async () => {
+    const client = createTestClient(fixture.outsider);
+    const instance = await client.init();
+    const signTypedData = vi.spyOn(fixture.outsider, 'signTypedData');
+    const userDecrypt = vi.spyOn(instance, 'userDecrypt');
+
+    await expect(
+      client.userDecrypt([fixture.handles.buyerPrice], fixture.contractAddress, fixture.outsider)
+    ).rejects.toMatchObject({ code: FhevmErrorCode.ACL_DENIED });
+    expect(signTypedData).not.toHaveBeenCalled();
+    expect(userDecrypt).not.toHaveBeenCalled();
+  });
+
+  it('refuses a public decryption of a private handle before the relayer call', async () => {
+    const client = createTestClient();
+    const instance = await client.init();
+    const publicDecrypt = vi.spyOn(instance, 'publicDecrypt');
+
+    await expect(client.publicDecrypt([fixture.handles.buyerPrice])).rejects.toBeInstanceOf(AclDeniedError);
+    expect(publicDecrypt).not.toHaveBeenCalled();
+  });
+
+  it('answers canDecrypt and canPublicDecrypt without a signature', async () => {
+    const client = createTestClient();
+    await client.init();
+
+    expect(await client.canDecrypt(fixture.handles.buyerPrice, fixture.buyer.address, fixture.contractAddress)).toBe(true);
+    expect(await client.canDecrypt(fixture.handles.buyerPrice, fixture.seller.address)).toBe(false);
+    expect(await client.canPublicDecrypt(fixture.handles.settlement)).toBe(true);
+    expect(await client.canPublicDecrypt(fixture.handles.sellerPrice)).toBe(false);
+  });
+
+  it('can be turned off, leaving the refusal to the relayer', async () => {
+    const client = createTestClient(fixture.buyer, { aclPreflight: false });
+    await client.init();
+    const canUserDecrypt = vi.spyOn(FhevmAcl.prototype, 'canUserDecrypt');
+
+    const values = await client.userDecrypt([fixture.handles.buyerPrice], fixture.contractAddress);
+    expect(values[fixture.handles.buyerPrice]).toBe(BigInt(BUYER_PRICE));
+    expect(canUserDecrypt).not.toHaveBeenCalled();
+    canUserDecrypt.mockRestore();
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import {
+  DecryptionAuthorization,
+  DecryptionAuthorizationManager,
+  FhevmInstance,
+  MemoryStore,
+  authorizationKey,
+  isAuthorizationValid,
+} from '../src/core/index.js';
+import { BUYER_PRICE, BargainFixture, createTestClient, deployBargainSession, hardhatAccount } from './fixtures.js';
+
+const CHAIN_ID = 31337;
+const CONTRACT_A = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CONTRACT_B = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+describe('DecryptionAuthorizationManager', () => {
+  let instance: FhevmInstance;
+
+  beforeAll(async () => {
+    instance = await createTestClient().init();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function signingAccount() {
+    const account = hardhatAccount(1);
+    return { account, signTypedData: vi.spyOn(account, 'signTypedData') };
+  }
+
+  it('signs once per contract set and reuses the stored authorization', async () => {
+    const manager = new DecryptionAuthorizationManager({ store: new MemoryStore() });
+    const { account, signTypedData } = signingAccount();
+
+    const first = await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A, CONTRACT_B]);
+    const second = await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_B.toLowerCase(), CONTRACT_A]);
+    expect(second).toEqual(first);
+    expect(first.contractAddresses).toEqual([CONTRACT_A, CONTRACT_B]);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+
+    await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('notes signature requests through its logger', async () => {
+    const logger = { debug: vi.fn() };
+    const manager = new DecryptionAuthorizationManager({ store: new MemoryStore(), logger });
+    const { account } = signingAccount();
+
+    await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]);
+    await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]);
+    expect(logger.debug).toHaveBeenCalledOnce();
+    expect(logger.debug).toHaveBeenCalledWith(expect.stringMatching(/new decryption authorization/), [CONTRACT_A]);
+  });
+
+  it('prompts once for parallel requests', async () => {
+    const manager = new DecryptionAuthorizationManager({ store: new MemoryStore() });
+    const { account, signTypedData } = signingAccount();
+
+    const [first, second] = await Promise.all([
+      manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]),
+      manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]),
+    ]);
+    expect(second).toBe(first);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs again shortly before the authorization expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const manager = new DecryptionAuthorizationManager({ store: new MemoryStore(), durationDays: 1, renewBeforeSeconds: 300 });
+    const { account, signTypedData } = signingAccount();
+
+    const first = await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]);
+    expect(first.durationDays).toBe(1);
+
+    vi.advanceTimersByTime((24 * 60 * 60 - 600) * 1000);
+    expect(await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A])).toEqual(first);
+
+    vi.advanceTimersByTime(400 * 1000);
+    const renewed = await manager.getAuthorization(instance, CHAIN_ID, account, [CONTRACT_A]);
+    expect(renewed.startTimestamp).toBeGreaterThan(first.startTimestamp);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('takes keypairs from generateKeypair when given', async () => {
+    const manager = new DecryptionAuthorizationManager({ store: new MemoryStore() });
+    const keypair = instance.generateKeypair();
+    const generateKeypair = vi.fn().mockResolvedValue(keypair);
+
+    const authorization = await manager.getAuthorization(instance, CHAIN_ID, hardhatAccount(1), [CONTRACT_A], generateKeypair);
+    expect(generateKeypair).toHaveBeenCalledOnce();
+    expect(authorization.publicKey).toBe(keypair.publicKey);
+  });
+
+  it('revokes one contract set or clears one user', async () => {
+    const store = new MemoryStore<DecryptionAuthorization>();
+    const manager = new DecryptionAuthorizationManager({ store });
+    const buyer = hardhatAccount(1);
+    const seller = hardhatAccount(2);
+    await manager.getAuthorization(instance, CHAIN_ID, buyer, [CONTRACT_A]);
+    await manager.getAuthorization(instance, CHAIN_ID, buyer, [CONTRACT_B]);
+    await manager.getAuthorization(instance, CHAIN_ID, seller, [CONTRACT_A]);
+
+    await manager.revoke(CHAIN_ID, buyer.address, [CONTRACT_A]);
+    expect(await store.get(authorizationKey(CHAIN_ID, buyer.address, [CONTRACT_A]))).toBeUndefined();
+    expect(await store.keys()).toHaveLength(2);
+
+    await manager.clear(buyer.address);
+    expect(await store.keys()).toEqual([authorizationKey(CHAIN_ID, seller.address, [CONTRACT_A])]);
+  });
+
+  it('signs again when the store cannot be read', async () => {
+    const store = new MemoryStore<DecryptionAuthorization>();
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('storage unavailable'));
+    const manager = new DecryptionAuthorizationManager({ store });
+
+    const authorization = await manager.getAuthorization(instance, CHAIN_ID, hardhatAccount(1), [CONTRACT_A]);
+    expect(isAuthorizationValid(authorization)).toBe(true);
+  });
+
+  it('only accepts durations from 1 to 365 days', () => {
+    expect(() => new DecryptionAuthorizationManager({ durationDays: 0 })).toThrow(/between 1 and 365/);
+    expect(() => new DecryptionAuthorizationManager({ durationDays: 366 })).toThrow(/between 1 and 365/);
+  });
+});
+
+describe('user decryption with stored authorizations', () => {
+  let fixture: BargainFixture;
+
+  beforeAll(async () => {
+    fixture = await deployBargainSession();
+  });
+
+  it('decrypts again without a new signature', async () => {
+    const client = createTestClient(fixture.buyer);
+    await client.init();
+    const signTypedData = vi.spyOn(fixture.buyer, 'signTypedData');
+
+    for (let i = 0; i < 2; i++) {
+      const values = await client.userDecrypt([fixture.handles.buyerPrice], fixture.contractAddress, fixture.buyer);
+      expect(values[fixture.handles.buyerPrice]).toBe(BigInt(BUYER_PRICE));
+    }
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+
+    await client.revokeDecryptionAuthorization(fixture.buyer.address, [fixture.contractAddress]);
+    await client.userDecrypt([fixture.handles.buyerPrice], fixture.contractAddress, fixture.buyer);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,194 @@
+import { afterAll, beforeAll, describe, expect, inject, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  FhevmClient,
+  INVITE_PATH_PREFIX,
+  SessionState,
+  assertNoCleartextPrices,
+  buildInviteLink,
+  createBargainSession,
+  getSessionTimeline,
+  joinBargainSession,
+  parseInviteLink,
+  resolveDealMatch,
+  revealSessionPrice,
+  setDefaultFhevmClient,
+  submitCounterOffer,
+} from '../src/core/index.js';
+import {
+  BUYER_PRICE,
+  SELLER_PRICE,
+  SETTLEMENT_PRICE,
+  bargainContract,
+  createTestClient,
+  deployBargainSession,
+  encryptPrice,
+  hardhatAccount,
+} from './fixtures.js';
+
+const SESSION_ID = `0x${'ab'.repeat(32)}`;
+
+describe('invite links', () => {
+  it('deep-links into the join screen of a session', () => {
+    const link = buildInviteLink(SESSION_ID, 'https://bargain.example/app');
+    expect(link).toBe(`https://bargain.example${INVITE_PATH_PREFIX}${SESSION_ID}`);
+    expect(parseInviteLink(link)).toBe(SESSION_ID);
+  });
+
+  it('rejects session ids that are not 32-byte hex', () => {
+    expect(() => buildInviteLink('0x1234', 'https://bargain.example')).toThrow('Invalid session id');
+    expect(() => buildInviteLink('', 'https://bargain.example')).toThrow('Invalid session id');
+    expect(() => buildInviteLink(SESSION_ID.slice(2), 'https://bargain.example')).toThrow('Invalid session id');
+  });
+
+  it('parses paths and links on any origin, lowercasing the id', () => {
+    expect(parseInviteLink(`/join/${SESSION_ID.toUpperCase().replace('0X', '0x')}/`)).toBe(SESSION_ID);
+    expect(parseInviteLink(`https://elsewhere.example/join/${SESSION_ID}?ref=mail#top`)).toBe(SESSION_ID);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseInviteLink('https://bargain.example/')).toBeNull();
+    expect(parseInviteLink('/join/')).toBeNull();
+    expect(parseInviteLink('/join/0x1234')).toBeNull();
+    expect(parseInviteLink(`/join/${SESSION_ID}/extra`)).toBeNull();
+    expect(parseInviteLink(`/sessions/${SESSION_ID}`)).toBeNull();
+  });
+});
+
+describe('assertNoCleartextPrices', () => {
+  it('lets zero and missing prices through', () => {
+    expect(() => assertNoCleartextPrices({ publicBuyerPrice: 0, publicSellerPrice: undefined })).not.toThrow();
+  });
+
+  it('refuses non-zero prices unless explicitly allowed', () => {
+    expect(() => assertNoCleartextPrices({ publicBuyerPrice: 500, publicSellerPrice: 0 })).toThrow(/publicBuyerPrice/);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => assertNoCleartextPrices({ publicSellerPrice: 400n }, true)).not.toThrow();
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/publicSellerPrice/));
+    warn.mockRestore();
+  });
+});
+
+describe('bargain sessions', () => {
+  let provider: ethers.JsonRpcProvider;
+  let contractAddress: string;
+  const buyer = hardhatAccount(1);
+  const seller = hardhatAccount(2);
+
+  beforeAll(async () => {
+    ({ contractAddress } = await deployBargainSession());
+    // Parties send back-to-back transactions, so nonces must not come from the provider's request cache
+    provider = new ethers.JsonRpcProvider(inject('rpcUrl'), 31337, {
+      staticNetwork: true,
+      pollingInterval: 100,
+      cacheTimeout: -1,
+    });
+
+    // resolveDealMatch and revealSessionPrice decrypt through the default client
+    const client = createTestClient();
+    await client.init();
+    setDefaultFhevmClient(client);
+  });
+
+  afterAll(() => {
+    setDefaultFhevmClient(new FhevmClient());
+    provider.destroy();
+  });
+
+  function contractFor(account: ethers.HDNodeWallet) {
+    return bargainContract(contractAddress, account.connect(provider));
+  }
+
+  async function openSession(bid: number, options: Parameters<typeof createBargainSession>[2] = {}) {
+    const { sessionId } = await createBargainSession(
+      contractFor(buyer),
+      await encryptPrice(contractAddress, buyer, bid),
+      options
+    );
+    return sessionId!;
+  }
+
+  async function join(sessionId: string, ask: number) {
+    await joinBargainSession(contractFor(seller), sessionId, await encryptPrice(contractAddress, seller, ask));
+  }
+
+  it('validates session options before sending anything', async () => {
+    const bid = await encryptPrice(contractAddress, buyer, BUYER_PRICE);
+    const contract = contractFor(buyer);
+    const createPrivateSession = vi.spyOn(contract, 'createPrivateSession' as never);
+
+    await expect(createBargainSession(contract, bid, { maxRounds: 0 })).rejects.toThrow(/maxRounds/);
+    await expect(createBargainSession(contract, bid, { policy: 3, bidWeightPercent: 101 })).rejects.toThrow(/bidWeightPercent/);
+    await expect(createBargainSession(contract, bid, { invitedSellers: ['0x1234'] })).rejects.toThrow(/0x1234/);
+    await expect(createBargainSession(contract, bid, { deadline: 1 })).rejects.toThrow(/future/);
+    await expect(createBargainSession(contract, bid, { publicBuyerPrice: 500 })).rejects.toThrow(/cleartext/);
+    await expect(createBargainSession(contract, bid, { privateMode: false })).rejects.toThrow(/encryptedAsk/);
+    expect(createPrivateSession).not.toHaveBeenCalled();
+  });
+
+  it('resolves a private session through the public reveal of its match', async () => {
+    const sessionId = await openSession(BUYER_PRICE);
+    await expect(resolveDealMatch(contractFor(buyer), sessionId)).rejects.toThrow(/not been computed/);
+    await join(sessionId, SELLER_PRICE);
+
+    const { matched, settlementPrice, transactionReceipt } = await resolveDealMatch(contractFor(seller), sessionId);
+    expect(matched).toBe(true);
+    expect(settlementPrice).toBe(BigInt(SETTLEMENT_PRICE));
+    expect(transactionReceipt?.status).toBe(1);
+    expect(Number(await contractFor(buyer).getSessionState(sessionId))).toBe(SessionState.Matched);
+
+    await expect(resolveDealMatch(contractFor(buyer), sessionId)).rejects.toThrow(/deal matched/);
+    await expect(getSessionTimeline(contractFor(buyer), sessionId)).resolves.toEqual([
+      expect.objectContaining({ round: 1, outcome: 'matched', settlementPrice: BigInt(SETTLEMENT_PRICE), counterOffers: [] }),
+    ]);
+  });
+
+  it('re-evaluates a failed round once both sides have countered', async () => {
+    const sessionId = await openSession(300, { maxRounds: 2 });
+    await join(sessionId, SELLER_PRICE);
+
+    const first = await resolveDealMatch(contractFor(buyer), sessionId);
+    expect(first).toMatchObject({ matched: false, settlementPrice: null });
+    expect(Number(await contractFor(buyer).getSessionState(sessionId))).toBe(SessionState.Countering);
+
+    await submitCounterOffer(contractFor(buyer), sessionId, await encryptPrice(contractAddress, buyer, 450));
+    await submitCounterOffer(contractFor(seller), sessionId, await encryptPrice(contractAddress, seller, 420));
+    await expect(
+      submitCounterOffer(contractFor(seller), sessionId, await encryptPrice(contractAddress, seller, 410))
+    ).rejects.toThrow(/not accepting counter-offers/);
+
+    const second = await resolveDealMatch(contractFor(seller), sessionId);
+    expect(second).toMatchObject({ matched: true, settlementPrice: 435n });
+
+    const timeline = await getSessionTimeline(contractFor(buyer), sessionId);
+    expect(timeline.map(({ round, outcome }) => ({ round, outcome }))).toEqual([
+      { round: 1, outcome: 'no-deal' },
+      { round: 2, outcome: 'matched' },
+    ]);
+    expect(timeline[0].counterOffers.map(({ party }) => party)).toEqual([buyer.address, seller.address]);
+    expect(timeline[1].settlementPrice).toBe(435n);
+  });
+
+  it("reveals each party's own price on a matched legacy session", async () => {
+    const sessionId = await openSession(BUYER_PRICE, {
+      privateMode: false,
+      encryptedAsk: await encryptPrice(contractAddress, buyer, 0),
+    });
+    await join(sessionId, SELLER_PRICE);
+    await resolveDealMatch(contractFor(buyer), sessionId);
+
+    await expect(revealSessionPrice(bargainContract(contractAddress, provider), sessionId)).rejects.toThrow(/signer/);
+    await expect(revealSessionPrice(contractFor(hardhatAccount(3)), sessionId)).rejects.toThrow(/buyer or seller/);
+
+    const buyerReveal = await revealSessionPrice(contractFor(buyer), sessionId);
+    expect(buyerReveal).toMatchObject({ role: 'buyer', price: BigInt(BUYER_PRICE) });
+    const sellerReveal = await revealSessionPrice(contractFor(seller), sessionId);
+    expect(sellerReveal).toMatchObject({ role: 'seller', price: BigInt(SELLER_PRICE) });
+
+    const session = await contractFor(buyer).getSession(sessionId);
+    expect(session.buyerRevealed && session.sellerRevealed).toBe(true);
+    expect([session.publicBuyerPrice, session.publicSellerPrice]).toEqual([BigInt(BUYER_PRICE), BigInt(SELLER_PRICE)]);
+  });
+});
@@ -0,0 +1,183 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  DecryptedValueCache,
+  DecryptedValueKey,
+  EncryptedIndexedDbStore,
+  FhevmErrorCode,
+} from '../src/core/index.js';
+import { BUYER_PRICE, BargainFixture, createTestClient, deployBargainSession, fakeHandle, hardhatAccount } from './fixtures.js';
+
+const CONTRACT = ethers.getAddress(ethers.toBeHex(1, 20));
+const buyer = hardhatAccount(1).address;
+const seller = hardhatAccount(2).address;
+
+function key(handle: string, account = buyer, chainId = 31337): DecryptedValueKey {
+  return { chainId, contractAddress: CONTRACT, handle, account };
+}
+
+describe('DecryptedValueCache', () => {
+  afterEach(async () => {
+    vi.useRealTimers();
+    await new DecryptedValueCache({ persistent: true }).clear();
+  });
+
+  it('serves values by chain, account, contract and handle', async () => {
+    const cache = new DecryptedValueCache();
+    const handle = fakeHandle('euint32');
+    await cache.set(key(handle), 500n);
+
+    expect(cache.peek(key(handle.toUpperCase().replace('0X', '0x'), buyer.toLowerCase()))).toBe(500n);
+    expect(await cache.get(key(handle))).toBe(500n);
+    expect(cache.peek(key(handle, seller))).toBeUndefined();
+    expect(cache.peek(key(handle, buyer, 1))).toBeUndefined();
+  });
+
+  it('keeps values of the active chain and account only', async () => {
+    const cache = new DecryptedValueCache({ persistent: true });
+    const handle = fakeHandle('euint32');
+    await cache.setScope(31337, buyer);
+    await cache.set(key(handle), 500n);
+
+    await cache.setScope(31337, seller);
+    expect(cache.peek(key(handle))).toBeUndefined();
+    // Dropped from the persistent layer as well
+    expect(await new DecryptedValueCache({ persistent: true }).get(key(handle))).toBeUndefined();
+  });
+
+  it('persists typed values across instances, encrypted', async () => {
+    const values: [string, bigint | boolean | string][] = [
+      [fakeHandle('euint256', 1), 2n ** 200n],
+      [fakeHandle('ebool', 2), false],
+      [fakeHandle('eaddress', 3), seller],
+    ];
+    const writer = new DecryptedValueCache({ persistent: true });
+    for (const [handle, value] of values) await writer.set(key(handle), value);
+
+    const reader = new DecryptedValueCache({ persistent: true });
+    for (const [handle, value] of values) {
+      expect(reader.peek(key(handle))).toBeUndefined();
+      expect(await reader.get(key(handle))).toBe(value);
+    }
+  });
+
+  it('expires values after maxAgeMs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new DecryptedValueCache({ maxAgeMs: 1000, persistent: true });
+    const handle = fakeHandle('euint32');
+    await cache.set(key(handle), 500n);
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.peek(key(handle))).toBe(500n);
+    vi.advanceTimersByTime(1);
+    expect(cache.peek(key(handle))).toBeUndefined();
+    expect(await cache.get(key(handle))).toBeUndefined();
+    expect(await new DecryptedValueCache({ persistent: true }).get(key(handle))).toBeUndefined();
+  });
+
+  it('drops persisted values without a timestamp', async () => {
+    const handle = fakeHandle('euint32');
+    const cache = new DecryptedValueCache({ persistent: true });
+    await cache.set(key(handle), 500n);
+    const store = new EncryptedIndexedDbStore<object>('decrypted-values');
+    const [id] = await store.keys();
+    await store.set(id, { type: 'bigint', value: '500' });
+
+    expect(await new DecryptedValueCache({ persistent: true }).get(key(handle))).toBeUndefined();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('revalidates against the ACL and notifies subscribers', async () => {
+    const cache = new DecryptedValueCache();
+    const [kept, revoked] = [fakeHandle('euint32', 1), fakeHandle('euint32', 2)];
+    await cache.set(key(kept), 1n);
+    await cache.set(key(revoked), 2n);
+    const listener = vi.fn();
+    const unsubscribe = cache.subscribe(listener);
+
+    expect(await cache.revalidate(async ({ handle }) => handle === kept)).toBe(1);
+    expect(cache.peek(key(kept))).toBe(1n);
+    expect(cache.peek(key(revoked))).toBeUndefined();
+    expect(listener).toHaveBeenCalledOnce();
+
+    unsubscribe();
+    await cache.clear();
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
+
+describe('client cache', () => {
+  let fixture: BargainFixture;
+
+  beforeAll(async () => {
+    fixture = await deployBargainSession();
+  });
+
+  function outsiderKey(): DecryptedValueKey {
+    return { chainId: 31337, contractAddress: fixture.contractAddress, handle: fixture.handles.buyerPrice, account: fixture.outsider.address };
+  }
+
+  it('answers repeated decryptions from the cache', async () => {
+    const client = createTestClient(fixture.buyer);
+    const instance = await client.init();
+    const userDecrypt = vi.spyOn(instance, 'userDecrypt');
+
+    expect(await client.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress)).toBe(BigInt(BUYER_PRICE));
+    expect(await client.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress)).toBe(BigInt(BUYER_PRICE));
+    expect(userDecrypt).toHaveBeenCalledOnce();
+    expect(client.getCachedValue(fixture.handles.buyerPrice, fixture.contractAddress, fixture.buyer.address)).toBe(BigInt(BUYER_PRICE));
+  });
+
+  it('drops the values of the previous account', async () => {
+    const cache = new DecryptedValueCache();
+    const buyerClient = createTestClient(fixture.buyer, { cache });
+    const sellerClient = createTestClient(fixture.seller, { cache });
+    await Promise.all([buyerClient.init(), sellerClient.init()]);
+
+    await buyerClient.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress);
+    await sellerClient.decryptValue(fixture.handles.sellerPrice, fixture.contractAddress);
+    expect(buyerClient.getCachedValue(fixture.handles.buyerPrice, fixture.contractAddress, fixture.buyer.address)).toBeUndefined();
+  });
+
+  it('checks the ACL before serving a cached value', async () => {
+    const cache = new DecryptedValueCache();
+    const client = createTestClient(fixture.outsider, { cache });
+    await client.init();
+    await cache.setScope(31337, fixture.outsider.address);
+    await cache.set(outsiderKey(), BigInt(BUYER_PRICE));
+
+    await expect(client.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress)).rejects.toMatchObject({
+      code: FhevmErrorCode.ACL_DENIED,
+    });
+    expect(cache.peek(outsiderKey())).toBeUndefined();
+  });
+
+  it('loads cached values only while the ACL allows them', async () => {
+    const cache = new DecryptedValueCache();
+    const client = createTestClient(fixture.buyer, { cache });
+    await client.init();
+    await client.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress);
+
+    expect(await client.loadCachedValue(fixture.handles.buyerPrice, fixture.contractAddress, fixture.buyer.address)).toBe(
+      BigInt(BUYER_PRICE)
+    );
+
+    await cache.setScope(31337, fixture.outsider.address);
+    await cache.set(outsiderKey(), BigInt(BUYER_PRICE));
+    expect(await client.loadCachedValue(fixture.handles.buyerPrice, fixture.contractAddress, fixture.outsider.address)).toBeUndefined();
+    expect(cache.peek(outsiderKey())).toBeUndefined();
+  });
+
+  it('revalidates cached values against the ACL', async () => {
+    const cache = new DecryptedValueCache();
+    const client = createTestClient(fixture.outsider, { cache });
+    await client.init();
+    await cache.setScope(31337, fixture.outsider.address);
+    await cache.set(outsiderKey(), BigInt(BUYER_PRICE));
+
+    expect(await client.revalidateDecryptedValues()).toBe(1);
+    expect(cache.peek(outsiderKey())).toBeUndefined();
+  });
+});
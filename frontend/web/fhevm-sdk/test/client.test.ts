@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  FhevmClient,
+  FhevmErrorCode,
+  NotInitializedError,
+  getDefaultFhevmClient,
+  getFheInstance,
+  getFheNetwork,
+  initializeFheInstance,
+  setDefaultFhevmClient,
+  toRelayerConfig,
+} from '../src/core/index.js';
+import { createTestClient, fakeHandle, hardhatAccount, testNetwork } from './fixtures.js';
+
+// Stands in for the real relayer SDK, which needs a Zama relayer to create an instance
+const relayerSdk = vi.hoisted(() => ({ createInstance: vi.fn(async (_config: Record<string, unknown>) => ({})) }));
+vi.mock('@zama-fhe/relayer-sdk/node', () => relayerSdk);
+
+describe('FhevmClient', () => {
+  it('shares one initialization between concurrent init calls', async () => {
+    const client = createTestClient();
+    const [first, second] = await Promise.all([client.init(), client.init()]);
+    expect(first).toBe(second);
+    expect(await client.init()).toBe(first);
+    expect(client.isInitialized).toBe(true);
+  });
+
+  it('keeps network and signer per client', async () => {
+    const buyer = createTestClient(hardhatAccount(1));
+    const seller = createTestClient(hardhatAccount(2));
+    await Promise.all([buyer.init(), seller.init()]);
+
+    expect(await buyer.getSigner()!.getAddress()).toBe(hardhatAccount(1).address);
+    expect(await seller.getSigner()!.getAddress()).toBe(hardhatAccount(2).address);
+    expect(buyer.getInstance()).not.toBe(seller.getInstance());
+  });
+
+  it('throws NOT_INITIALIZED before init and after dispose', async () => {
+    const client = createTestClient(hardhatAccount(1));
+    expect(() => client.createInput(testNetwork().aclContractAddress, hardhatAccount(1).address)).toThrow(NotInitializedError);
+
+    await client.init();
+    client.dispose();
+    expect(client.isInitialized).toBe(false);
+    expect(client.getSigner()).toBeNull();
+    await expect(client.canPublicDecrypt(`0x${'00'.repeat(32)}`)).rejects.toMatchObject({
+      code: FhevmErrorCode.NOT_INITIALIZED,
+    });
+
+    // Disposed clients can be initialized again
+    await expect(client.init()).resolves.toBeDefined();
+  });
+
+  it('throws NOT_INITIALIZED for a user decryption without a signer', async () => {
+    const client = createTestClient();
+    await client.init();
+    await expect(client.userDecryptBatch([{ handle: fakeHandle('euint32'), contractAddress: testNetwork().aclContractAddress }]))
+      .rejects.toMatchObject({ code: FhevmErrorCode.NOT_INITIALIZED, message: expect.stringMatching(/No signer/) });
+  });
+
+  it('rejects an initialization the client was disposed during', async () => {
+    const client = createTestClient();
+    const init = client.init();
+    client.dispose();
+    await expect(init).rejects.toThrow(/disposed during initialization/);
+    expect(client.isInitialized).toBe(false);
+  });
+
+  it('logs through the logger option only', async () => {
+    const account = hardhatAccount(1);
+    const logger = { debug: vi.fn() };
+    const consoleLog = vi.spyOn(console, 'log');
+    const client = createTestClient(account, { logger });
+    await client.init();
+    consoleLog.mockClear();
+
+    await client.encryptInputs(testNetwork().aclContractAddress, account.address, [{ type: 'euint8', value: 1 }]);
+    expect(logger.debug).toHaveBeenCalled();
+    expect(consoleLog).not.toHaveBeenCalled();
+    consoleLog.mockRestore();
+  });
+});
+
+describe('default client', () => {
+  afterEach(() => {
+    setDefaultFhevmClient(new FhevmClient());
+  });
+
+  it('swaps the client behind the free functions and disposes the previous one', async () => {
+    const previous = createTestClient();
+    await previous.init();
+    setDefaultFhevmClient(previous);
+    expect(getFheInstance()).toBe(previous.getInstance());
+
+    const next = createTestClient();
+    setDefaultFhevmClient(next);
+    expect(getDefaultFhevmClient()).toBe(next);
+    expect(previous.isInitialized).toBe(false);
+    expect(getFheNetwork()).toBeNull();
+  });
+
+  it('keeps decrypted values across initializeFheInstance calls', async () => {
+    const cache = getDefaultFhevmClient().getDecryptedValueCache();
+    await initializeFheInstance({ network: testNetwork(), mock: true });
+    expect(getDefaultFhevmClient().getDecryptedValueCache()).toBe(cache);
+    expect(getFheNetwork()?.chainId).toBe(31337);
+  });
+});
+
+describe('Node.js relayer SDK', () => {
+  afterEach(() => {
+    relayerSdk.createInstance.mockClear();
+  });
+
+  it('creates the instance through @zama-fhe/relayer-sdk/node with a signer-backed provider', async () => {
+    const account = hardhatAccount(1);
+    const network = { ...testNetwork(), mock: false };
+    const client = new FhevmClient({ network, signer: { privateKey: account.privateKey } });
+
+    const instance = await client.init();
+    try {
+      expect(relayerSdk.createInstance).toHaveBeenCalledOnce();
+      expect(instance).toBe(await relayerSdk.createInstance.mock.results[0].value);
+
+      const { network: provider, ...config } = relayerSdk.createInstance.mock.calls[0][0];
+      const { network: _, ...expected } = toRelayerConfig(network, undefined);
+      expect(config).toEqual(expected);
+
+      const eip1193 = provider as ethers.Eip1193Provider;
+      expect(Number(await eip1193.request({ method: 'eth_chainId' }))).toBe(31337);
+      expect(await eip1193.request({ method: 'eth_accounts' })).toEqual([account.address]);
+      expect(await client.getSigner()!.getAddress()).toBe(account.address);
+    } finally {
+      client.dispose();
+    }
+  });
+
+  it('fails without an RPC URL before loading the relayer SDK', async () => {
+    const client = new FhevmClient({ network: { ...testNetwork(), mock: false, rpcUrl: undefined } });
+    await expect(client.init()).rejects.toThrow(/No RPC URL for network "hardhat"/);
+    expect(relayerSdk.createInstance).not.toHaveBeenCalled();
+  });
+});
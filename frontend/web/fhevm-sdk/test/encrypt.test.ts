@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import { FhevmClient, FhevmErrorCode, InvalidEncryptionResultError, getHandleType } from '../src/core/index.js';
+import { createTestClient, hardhatAccount, testNetwork } from './fixtures.js';
+
+describe('encrypted input results', () => {
+  const account = hardhatAccount(1);
+  const contractAddress = testNetwork().aclContractAddress;
+  let client: FhevmClient;
+
+  beforeAll(async () => {
+    client = createTestClient(account);
+    await client.init();
+  });
+
+  it('types each handle by its spec and returns the proof as bytes', async () => {
+    const { handles, inputProof } = await client.encryptInputs(contractAddress, account.address, [
+      { type: 'euint64', value: 10n ** 18n },
+      { type: 'ebool', value: true },
+    ]);
+
+    expect(handles.map(({ type }) => type)).toEqual(['euint64', 'ebool']);
+    expect(handles.map(({ handle }) => getHandleType(handle))).toEqual(['euint64', 'ebool']);
+    expect(handles.every(({ handle }) => handle instanceof Uint8Array && handle.length === 32)).toBe(true);
+    expect(inputProof).toBeInstanceOf(Uint8Array);
+  });
+
+  it('encrypt keeps the single-value euint32 shape', async () => {
+    const { encryptedData, proof } = await client.encrypt(contractAddress, account.address, 42);
+    expect(getHandleType(encryptedData)).toBe('euint32');
+    expect(ethers.dataLength(proof)).toBeGreaterThan(0);
+  });
+
+  it('never passes a result without handles and proof through', async () => {
+    const instance = client.getInstance()!;
+    const createEncryptedInput = instance.createEncryptedInput.bind(instance);
+    const spy = vi.spyOn(instance, 'createEncryptedInput').mockImplementation((...args) => {
+      const builder = createEncryptedInput(...args);
+      builder.encrypt = async () => ({ handles: [], inputProof: new Uint8Array() });
+      return builder;
+    });
+
+    const attempt = client.encryptInputs(contractAddress, account.address, [{ type: 'euint8', value: 1 }]);
+    await expect(attempt).rejects.toBeInstanceOf(InvalidEncryptionResultError);
+    await expect(attempt).rejects.toMatchObject({ code: FhevmErrorCode.RELAYER_UNAVAILABLE });
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  AclDeniedError,
+  CancelledError,
+  FhevmError,
+  FhevmErrorCode,
+  InvalidHandleError,
+  NotInitializedError,
+  ProofRejectedError,
+  RelayerUnavailableError,
+  TransactionFailedError,
+  UserRejectedError,
+  ValueOutOfRangeError,
+  WrongChainError,
+  getFhevmErrorCode,
+  toFhevmError,
+} from '../src/core/index.js';
+import { createTestClient, deployBargainSession } from './fixtures.js';
+
+describe('toFhevmError', () => {
+  it.each([
+    ['an ethers rejection', ethers.makeError('user rejected action', 'ACTION_REJECTED'), UserRejectedError],
+    ['an EIP-1193 4001', Object.assign(new Error('MetaMask Tx Signature: denied'), { code: 4001 }), UserRejectedError],
+    ['a wrapped 4001', { message: 'could not coalesce error', info: { error: { code: 4001, message: 'rejected' } } }, UserRejectedError],
+    ['a relayer ACL refusal', new Error('User 0xabc is not authorized to user decrypt handle 0x01'), AclDeniedError],
+    ['a public decryption refusal', new Error('Handle 0x01 is not allowed for public decryption'), AclDeniedError],
+    ['an ACL revert', { shortMessage: 'execution reverted: SenderNotAllowed(0xabc)' }, AclDeniedError],
+    ['a KMS signature revert', { revert: { name: 'InvalidKMSSignatures', args: [] }, message: 'reverted' }, ProofRejectedError],
+    ['a below-threshold proof', new Error('KMS signers threshold is not reached'), ProofRejectedError],
+    ['a malformed handle', new Error('Handle 0x12 is not of valid length'), InvalidHandleError],
+    ['a fetch failure', new TypeError('Failed to fetch'), RelayerUnavailableError],
+    ['a refused connection', new Error('connect ECONNREFUSED 127.0.0.1:8545'), RelayerUnavailableError],
+    ['a relayer 503', new Error('Relayer returned HTTP code 503'), RelayerUnavailableError],
+  ])('maps %s', (_, error, expected) => {
+    const mapped = toFhevmError(error);
+    expect(mapped).toBeInstanceOf(expected);
+    expect((mapped as FhevmError).cause).toBe(error);
+  });
+
+  it('passes FhevmErrors and unknown errors through unchanged', () => {
+    const sdkError = new NotInitializedError();
+    expect(toFhevmError(sdkError)).toBe(sdkError);
+
+    const other = new Error('something else');
+    expect(toFhevmError(other)).toBe(other);
+    expect(toFhevmError('plain string')).toBe('plain string');
+  });
+
+  it('gives codes for classified errors only', () => {
+    expect(getFhevmErrorCode(new Error('fetch failed'))).toBe(FhevmErrorCode.RELAYER_UNAVAILABLE);
+    expect(getFhevmErrorCode(new CancelledError())).toBe(FhevmErrorCode.CANCELLED);
+    expect(getFhevmErrorCode(new Error('something else'))).toBeUndefined();
+  });
+});
+
+describe('error classes', () => {
+  it('carry a stable code, their name and an optional cause', () => {
+    const cause = new Error('root cause');
+    const errors: [FhevmError, FhevmErrorCode][] = [
+      [new NotInitializedError(undefined, cause), FhevmErrorCode.NOT_INITIALIZED],
+      [new RelayerUnavailableError(undefined, cause), FhevmErrorCode.RELAYER_UNAVAILABLE],
+      [new UserRejectedError(undefined, cause), FhevmErrorCode.USER_REJECTED],
+      [new AclDeniedError('denied', cause), FhevmErrorCode.ACL_DENIED],
+      [new InvalidHandleError('bad handle', cause), FhevmErrorCode.INVALID_HANDLE],
+      [new ProofRejectedError('bad proof', cause), FhevmErrorCode.PROOF_REJECTED],
+      [new WrongChainError(1, 2, cause), FhevmErrorCode.WRONG_CHAIN],
+      [new ValueOutOfRangeError('too big', cause), FhevmErrorCode.VALUE_OUT_OF_RANGE],
+      [new CancelledError(undefined, cause), FhevmErrorCode.CANCELLED],
+      [new TransactionFailedError(undefined, cause), FhevmErrorCode.TRANSACTION_FAILED],
+    ];
+
+    for (const [error, code] of errors) {
+      expect(error).toBeInstanceOf(FhevmError);
+      expect(error.code).toBe(code);
+      expect(error.name).toBe(error.constructor.name);
+      expect(error.cause).toBe(cause);
+    }
+  });
+
+  it('describe a wrong chain with both chain ids', () => {
+    const error = new WrongChainError(11155111, 1);
+    expect(error).toMatchObject({ expectedChainId: 11155111, actualChainId: 1 });
+    expect(error.message).toMatch(/chain 1, but the FHEVM network is chain 11155111/);
+  });
+});
+
+describe('client errors', () => {
+  it('report a refused signature as USER_REJECTED with the wallet error as cause', async () => {
+    const fixture = await deployBargainSession();
+    const client = createTestClient(fixture.buyer);
+    await client.init();
+    const rejection = ethers.makeError('user rejected action', 'ACTION_REJECTED');
+    vi.spyOn(fixture.buyer, 'signTypedData').mockRejectedValue(rejection);
+
+    const attempt = client.userDecrypt([fixture.handles.buyerPrice], fixture.contractAddress, fixture.buyer);
+    await expect(attempt).rejects.toBeInstanceOf(UserRejectedError);
+    await expect(attempt).rejects.toMatchObject({ cause: rejection });
+  });
+});
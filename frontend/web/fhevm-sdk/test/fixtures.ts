@@ -0,0 +1,147 @@
+/**
+ * Shared fixtures for the mock-backed specs: Hardhat accounts, clients wired to the test node,
+ * and a BargainFHE session whose handles have known clear values and ACL entries
+ */
+
+import { ethers } from 'ethers';
+import { inject } from 'vitest';
+
+import bargainArtifact from '../../../../artifacts/contracts/Bargain_FHE.sol/BargainFHE.json';
+import {
+  DecryptionAuthorizationManager,
+  FhevmClient,
+  FhevmClientOptions,
+  FheInputType,
+  FhevmNetworkConfig,
+  HANDLE_TYPE_NAMES,
+  HARDHAT_NETWORK,
+  MemoryStore,
+} from '../src/core/index.js';
+
+/** Hardhat's default accounts */
+const HARDHAT_MNEMONIC = 'test test test test test test test test test test test junk';
+
+export const BUYER_PRICE = 500;
+export const SELLER_PRICE = 400;
+/** Midpoint settlement of the two prices */
+export const SETTLEMENT_PRICE = 450;
+
+/**
+ * Handle of the given FHE type for specs that never send it anywhere; `seed` fills the hash bytes
+ */
+export function fakeHandle(type: FheInputType, seed = 1) {
+  const bytes = new Uint8Array(32).fill(seed);
+  bytes[30] = Number(Object.keys(HANDLE_TYPE_NAMES).find(id => HANDLE_TYPE_NAMES[Number(id)] === type));
+  bytes[31] = 0;
+  return ethers.hexlify(bytes);
+}
+
+export function testNetwork(): FhevmNetworkConfig {
+  const url = inject('rpcUrl');
+  return { ...HARDHAT_NETWORK, relayerUrl: url, rpcUrl: url };
+}
+
+export function hardhatAccount(index: number, provider?: ethers.Provider) {
+  const wallet = ethers.HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`);
+  return provider ? wallet.connect(provider) : wallet;
+}
+
+/**
+ * Client on the mock relayer. Authorizations stay in memory, so specs never write to ~/.fhevm-sdk.
+ */
+export function createTestClient(account?: ethers.HDNodeWallet, options: FhevmClientOptions = {}) {
+  return new FhevmClient({
+    network: testNetwork(),
+    mock: true,
+    signer: account ? { privateKey: account.privateKey } : undefined,
+    authorizations: new DecryptionAuthorizationManager({ store: new MemoryStore() }),
+    ...options,
+  });
+}
+
+export interface BargainFixture {
+  contractAddress: string;
+  sessionId: string;
+  buyer: ethers.HDNodeWallet;
+  seller: ethers.HDNodeWallet;
+  /** Party to nothing: the ACL allows it no handle */
+  outsider: ethers.HDNodeWallet;
+  handles: {
+    /** euint32, allowed to the buyer (and the contract) */
+    buyerPrice: string;
+    /** euint32, allowed to the seller (and the contract) */
+    sellerPrice: string;
+    /** ebool, allowed to both parties and publicly decryptable */
+    match: string;
+    /** euint64, allowed to both parties and publicly decryptable */
+    settlement: string;
+  };
+}
+
+export function bargainContract(contractAddress: string, runner: ethers.ContractRunner) {
+  return new ethers.Contract(contractAddress, bargainArtifact.abi, runner);
+}
+
+/**
+ * euint32 price encrypted by `account` for the contract, through a client of its own
+ */
+export async function encryptPrice(contractAddress: string, account: ethers.HDNodeWallet, price: number) {
+  const client = createTestClient(account);
+  await client.init();
+  try {
+    return await client.encrypt(contractAddress, account.address, price);
+  } finally {
+    client.dispose();
+  }
+}
+
+/**
+ * Deploy BargainFHE, open a private session the seller joins, and request the match reveal
+ */
+export async function deployBargainSession(): Promise<BargainFixture> {
+  const provider = new ethers.JsonRpcProvider(inject('rpcUrl'), HARDHAT_NETWORK.chainId, { staticNetwork: true });
+  const [deployer, buyer, seller, outsider] = [0, 1, 2, 3].map(index => hardhatAccount(index, provider));
+
+  const factory = new ethers.ContractFactory(bargainArtifact.abi, bargainArtifact.bytecode, deployer);
+  const deployed = await factory.deploy();
+  await deployed.waitForDeployment();
+  const contractAddress = await deployed.getAddress();
+  const bargain = bargainContract(contractAddress, provider);
+
+  const buyerPrice = await encryptPrice(contractAddress, buyer, BUYER_PRICE);
+  const { timestamp } = (await provider.getBlock('latest'))!;
+  const midpoint = 0;
+  await (await (bargain.connect(buyer) as ethers.Contract).createPrivateSession(
+    buyerPrice.encryptedData,
+    buyerPrice.proof,
+    midpoint,
+    50,
+    timestamp + 3600,
+    1,
+    []
+  )).wait();
+  const sessionIds: string[] = await bargain.getAllSessionIds();
+  const sessionId = sessionIds[sessionIds.length - 1];
+
+  const sellerPrice = await encryptPrice(contractAddress, seller, SELLER_PRICE);
+  await (await (bargain.connect(seller) as ethers.Contract).joinPrivateSession(
+    sessionId,
+    sellerPrice.encryptedData,
+    sellerPrice.proof
+  )).wait();
+  await (await (bargain.connect(buyer) as ethers.Contract).requestMatchReveal(sessionId)).wait();
+
+  const [buyerHandle, sellerHandle] = await bargain.getEncryptedPrices(sessionId);
+  const matchHandle = await bargain.getEncryptedMatch(sessionId);
+  const settlementHandle = await bargain.getEncryptedSettlementPrice(sessionId);
+  provider.destroy();
+
+  return {
+    contractAddress,
+    sessionId,
+    buyer: hardhatAccount(1),
+    seller: hardhatAccount(2),
+    outsider: hardhatAccount(3),
+    handles: { buyerPrice: buyerHandle, sellerPrice: sellerHandle, match: matchHandle, settlement: settlementHandle },
+  };
+}
@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  HandleTypeMismatchError,
+  assertHandleTypes,
+  chunkHandlePairs,
+  getHandleBits,
+  getHandleType,
+  groupByAuthorization,
+  normalizeHandle,
+  normalizeHandlePairs,
+} from '../src/core/index.js';
+import {
+  BUYER_PRICE,
+  BargainFixture,
+  SETTLEMENT_PRICE,
+  createTestClient,
+  deployBargainSession,
+  fakeHandle,
+} from './fixtures.js';
+
+const contract = (n: number) => ethers.getAddress(ethers.toBeHex(n, 20));
+
+describe('handle helpers', () => {
+  it('reads the FHE type from byte 30', () => {
+    expect(getHandleType(fakeHandle('ebool'))).toBe('ebool');
+    expect(getHandleType(ethers.getBytes(fakeHandle('eaddress')))).toBe('eaddress');
+    expect(getHandleBits(fakeHandle('euint64'))).toBe(64);
+    expect(() => getHandleType(`0x${'ff'.repeat(32)}`)).toThrow(/unknown FHE type/);
+    expect(() => normalizeHandle('0x1234')).toThrow(/not 32 bytes/);
+  });
+
+  it('checks handles against the types the contract expects', () => {
+    expect(() => assertHandleTypes([fakeHandle('ebool'), fakeHandle('euint32')], ['ebool', 'euint32'])).not.toThrow();
+    expect(() => assertHandleTypes([fakeHandle('euint8')], ['euint8', 'euint8'])).toThrow(/Expected 2 handle/);
+    expect(() => assertHandleTypes([fakeHandle('euint8')], ['euint16'])).toThrow(HandleTypeMismatchError);
+  });
+
+  it('normalizes pairs and drops duplicates', () => {
+    const handle = fakeHandle('euint8');
+    const pairs = normalizeHandlePairs([
+      { handle, contractAddress: contract(1).toLowerCase() },
+      { handle: ethers.getBytes(handle), contractAddress: contract(1) },
+      { handle, contractAddress: contract(2) },
+    ]);
+    expect(pairs).toEqual([
+      { handle, contractAddress: contract(1) },
+      { handle, contractAddress: contract(2) },
+    ]);
+  });
+
+  it('groups at most ten contracts per authorization', () => {
+    const pairs = Array.from({ length: 12 }, (_, i) => ({ handle: fakeHandle('euint8', i), contractAddress: contract(12 - i) }));
+    const groups = groupByAuthorization(pairs);
+
+    expect(groups.map(group => group.contractAddresses.length)).toEqual([10, 2]);
+    expect(groups[0].contractAddresses).toEqual([...groups[0].contractAddresses].sort());
+    expect(groups.flatMap(group => group.pairs)).toHaveLength(12);
+  });
+
+  it('chunks requests under the encrypted-bit limit', () => {
+    const pairs = Array.from({ length: 9 }, (_, i) => ({ handle: fakeHandle('euint256', i), contractAddress: contract(1) }));
+    expect(chunkHandlePairs(pairs).map(chunk => chunk.length)).toEqual([8, 1]);
+    expect(chunkHandlePairs(pairs, 2048, 3).map(chunk => chunk.length)).toEqual([3, 3, 3]);
+
+    // A lone handle over the limit still gets a request of its own
+    expect(chunkHandlePairs(pairs.slice(0, 1), 64)).toHaveLength(1);
+  });
+});
+
+describe('userDecryptBatch', () => {
+  let first: BargainFixture;
+  let second: BargainFixture;
+
+  beforeAll(async () => {
+    first = await deployBargainSession();
+    second = await deployBargainSession();
+  });
+
+  it('decrypts handles of several contracts with one signature', async () => {
+    const client = createTestClient(first.buyer);
+    const instance = await client.init();
+    const signTypedData = vi.spyOn(first.buyer, 'signTypedData');
+    const userDecrypt = vi.spyOn(instance, 'userDecrypt');
+
+    const values = await client.userDecryptBatch(
+      [
+        { handle: first.handles.buyerPrice, contractAddress: first.contractAddress },
+        { handle: first.handles.settlement, contractAddress: first.contractAddress },
+        { handle: second.handles.match, contractAddress: second.contractAddress },
+      ],
+      first.buyer,
+      { maxHandlesPerRequest: 2 }
+    );
+
+    expect(values).toEqual({
+      [first.handles.buyerPrice]: BigInt(BUYER_PRICE),
+      [first.handles.settlement]: BigInt(SETTLEMENT_PRICE),
+      [second.handles.match]: true,
+    });
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+    expect(userDecrypt).toHaveBeenCalledTimes(2);
+  });
+
+  it('keys userDecrypt results by the handles as passed', async () => {
+    const client = createTestClient(first.buyer);
+    await client.init();
+    const handle = first.handles.buyerPrice.toUpperCase().replace('0X', '0x');
+
+    expect(await client.userDecrypt([handle], first.contractAddress)).toEqual({ [handle]: BigInt(BUYER_PRICE) });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  EncryptedInputBuilder,
+  EncryptedInputSpec,
+  FhevmErrorCode,
+  InputRangeError,
+  addInputSpecs,
+  toEncryptedParams,
+  validateInputSpec,
+} from '../src/core/index.js';
+import { createTestClient, hardhatAccount, testNetwork } from './fixtures.js';
+
+function recordingBuilder() {
+  const builder = {
+    addBool: vi.fn(),
+    add8: vi.fn(),
+    add16: vi.fn(),
+    add32: vi.fn(),
+    add64: vi.fn(),
+    add128: vi.fn(),
+    add256: vi.fn(),
+    addAddress: vi.fn(),
+    getBits: vi.fn(),
+    encrypt: vi.fn(),
+  };
+  for (const method of Object.values(builder)) method.mockReturnValue(builder);
+  return builder;
+}
+
+function rangeErrorOf(spec: EncryptedInputSpec, index = 0) {
+  try {
+    validateInputSpec(spec, index);
+  } catch (err) {
+    return err as InputRangeError;
+  }
+  throw new Error(`${spec.type} ${String(spec.value)} was accepted`);
+}
+
+describe('validateInputSpec', () => {
+  it('accepts every value of each integer type', () => {
+    expect(validateInputSpec({ type: 'euint8', value: 0 })).toBe(0n);
+    expect(validateInputSpec({ type: 'euint8', value: 255 })).toBe(255n);
+    expect(validateInputSpec({ type: 'euint64', value: 2n ** 64n - 1n })).toBe(2n ** 64n - 1n);
+    expect(validateInputSpec({ type: 'euint256', value: 2n ** 256n - 1n })).toBe(2n ** 256n - 1n);
+  });
+
+  it('rejects values outside the type with the input index', () => {
+    const error = rangeErrorOf({ type: 'euint8', value: 256 }, 2);
+    expect(error).toBeInstanceOf(InputRangeError);
+    expect(error).toMatchObject({ code: FhevmErrorCode.VALUE_OUT_OF_RANGE, index: 2, type: 'euint8', value: 256 });
+    expect(error.message).toBe('Input #2 (euint8): must be between 0 and 2^8 - 1');
+
+    expect(rangeErrorOf({ type: 'euint32', value: -1 })).toBeInstanceOf(InputRangeError);
+    expect(rangeErrorOf({ type: 'euint64', value: 2n ** 64n })).toBeInstanceOf(InputRangeError);
+  });
+
+  it('refuses numbers that lost precision or are not integers', () => {
+    expect(rangeErrorOf({ type: 'euint64', value: 2 ** 53 }).message).toMatch(/safe integer/);
+    expect(rangeErrorOf({ type: 'euint32', value: 1.5 }).message).toMatch(/safe integer/);
+    expect(rangeErrorOf({ type: 'euint32', value: '7' as unknown as number }).message).toMatch(/got string/);
+  });
+
+  it('takes booleans, 0 and 1 for ebool', () => {
+    expect(validateInputSpec({ type: 'ebool', value: false })).toBe(false);
+    expect(validateInputSpec({ type: 'ebool', value: 1 })).toBe(true);
+    expect(validateInputSpec({ type: 'ebool', value: 0n })).toBe(false);
+    expect(rangeErrorOf({ type: 'ebool', value: 2 })).toBeInstanceOf(InputRangeError);
+  });
+
+  it('checksums eaddress values and rejects others', () => {
+    const { address } = hardhatAccount(1);
+    expect(validateInputSpec({ type: 'eaddress', value: address.toLowerCase() })).toBe(address);
+    expect(rangeErrorOf({ type: 'eaddress', value: '0x1234' })).toBeInstanceOf(InputRangeError);
+  });
+});
+
+describe('addInputSpecs', () => {
+  it('adds values in schema order with the matching builder method', () => {
+    const builder = recordingBuilder();
+    const { address } = hardhatAccount(1);
+    addInputSpecs(builder as unknown as EncryptedInputBuilder, [
+      { type: 'euint32', value: 7 },
+      { type: 'ebool', value: true },
+      { type: 'eaddress', value: address },
+      { type: 'euint128', value: 1n },
+    ]);
+
+    expect(builder.add32).toHaveBeenCalledWith(7n);
+    expect(builder.addBool).toHaveBeenCalledWith(true);
+    expect(builder.addAddress).toHaveBeenCalledWith(address);
+    expect(builder.add128).toHaveBeenCalledWith(1n);
+    const order = [builder.add32, builder.addBool, builder.addAddress, builder.add128].map(
+      method => method.mock.invocationCallOrder[0]
+    );
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+  });
+
+  it('validates every value before adding any', () => {
+    const builder = recordingBuilder();
+    expect(() =>
+      addInputSpecs(builder as unknown as EncryptedInputBuilder, [
+        { type: 'euint8', value: 1 },
+        { type: 'euint8', value: 300 },
+      ])
+    ).toThrow(InputRangeError);
+    expect(builder.add8).not.toHaveBeenCalled();
+  });
+
+  it('needs at least one value', () => {
+    expect(() => addInputSpecs(recordingBuilder() as unknown as EncryptedInputBuilder, [])).toThrow(/at least one value/);
+  });
+});
+
+describe('toEncryptedParams', () => {
+  it('gives every handle the shared proof', () => {
+    const inputProof = new Uint8Array([1, 2, 3]);
+    const handles = [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)];
+    expect(
+      toEncryptedParams({ handles: handles.map(handle => ({ type: 'euint8', handle })), inputProof })
+    ).toEqual(handles.map(encryptedData => ({ encryptedData, proof: inputProof })));
+  });
+});
+
+describe('encryptInputs range checks', () => {
+  it('rejects out-of-range values before anything is encrypted', async () => {
+    const account = hardhatAccount(1);
+    const client = createTestClient(account);
+    const instance = await client.init();
+    const encrypt = vi.fn();
+    const createEncryptedInput = instance.createEncryptedInput.bind(instance);
+    vi.spyOn(instance, 'createEncryptedInput').mockImplementation((...args) => Object.assign(createEncryptedInput(...args), { encrypt }));
+
+    await expect(
+      client.encryptInputs(testNetwork().aclContractAddress, account.address, [{ type: 'euint16', value: 70_000 }])
+    ).rejects.toBeInstanceOf(InputRangeError);
+    expect(encrypt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, inject, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  FhevmErrorCode,
+  WrongChainError,
+  createMockFhevmInstance,
+  startMockRelayerServer,
+} from '../src/core/index.js';
+import { BUYER_PRICE, BargainFixture, SETTLEMENT_PRICE, createTestClient, deployBargainSession, testNetwork } from './fixtures.js';
+
+describe('createMockFhevmInstance', () => {
+  it('checks the node serves the network it is asked for', async () => {
+    await expect(createMockFhevmInstance({ ...testNetwork(), chainId: 1 })).rejects.toBeInstanceOf(WrongChainError);
+    await expect(
+      createMockFhevmInstance({ ...testNetwork(), aclContractAddress: ethers.ZeroAddress })
+    ).rejects.toThrow(/ACLAddress/);
+  });
+
+  it('notes the mock through the logger instead of the console', async () => {
+    const logger = { debug: vi.fn() };
+    const consoleLog = vi.spyOn(console, 'log');
+    try {
+      const { provider } = await createMockFhevmInstance(testNetwork(), { logger });
+      provider.destroy();
+      expect(logger.debug).toHaveBeenCalledWith(expect.stringMatching(/mock relayer of chain 31337/));
+      expect(consoleLog).not.toHaveBeenCalled();
+    } finally {
+      consoleLog.mockRestore();
+    }
+  });
+
+  it('reports a missing node as RELAYER_UNAVAILABLE', async () => {
+    await expect(
+      createMockFhevmInstance({ ...testNetwork(), relayerUrl: 'http://127.0.0.1:9' })
+    ).rejects.toMatchObject({ code: FhevmErrorCode.RELAYER_UNAVAILABLE });
+  });
+});
+
+describe('mock client', () => {
+  let fixture: BargainFixture;
+
+  beforeAll(async () => {
+    fixture = await deployBargainSession();
+  });
+
+  it('encrypts inputs the contract accepts and user-decrypts them', async () => {
+    const client = createTestClient(fixture.buyer);
+    await client.init();
+
+    const values = await client.userDecrypt([fixture.handles.buyerPrice], fixture.contractAddress);
+    expect(values[fixture.handles.buyerPrice]).toBe(BigInt(BUYER_PRICE));
+  });
+
+  it('public-decrypts revealed handles with a decryption proof', async () => {
+    const client = createTestClient();
+    await client.init();
+
+    const result = await client.publicDecrypt([fixture.handles.match, fixture.handles.settlement], {
+      expectedTypes: ['ebool', 'euint64'],
+    });
+    expect(result.clearValues[fixture.handles.match]).toBe(true);
+    expect(result.clearValues[fixture.handles.settlement]).toBe(BigInt(SETTLEMENT_PRICE));
+    expect(ethers.dataLength(result.decryptionProof)).toBeGreaterThan(0);
+  });
+});
+
+describe('startMockRelayerServer', () => {
+  let server: Awaited<ReturnType<typeof startMockRelayerServer>>;
+  let upstream: ethers.JsonRpcProvider;
+
+  beforeAll(async () => {
+    upstream = new ethers.JsonRpcProvider(inject('rpcUrl'), 31337, { staticNetwork: true });
+    // An EIP-1193 view of the test node, standing in for `hre.network.provider`
+    const provider = { request: ({ method, params }: { method: string; params?: unknown[] }) => upstream.send(method, params ?? []) };
+    server = await startMockRelayerServer(provider, { port: 0 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+    upstream.destroy();
+  });
+
+  it('serves the provider over HTTP as a mock relayer', async () => {
+    const client = createTestClient(undefined, { network: { ...testNetwork(), relayerUrl: server.url, rpcUrl: server.url } });
+    await expect(client.init()).resolves.toBeDefined();
+  });
+
+  it('answers batches and relays JSON-RPC errors', async () => {
+    const response = await fetch(server.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([
+        { jsonrpc: '2.0', id: 1, method: 'eth_chainId' },
+        { jsonrpc: '2.0', id: 2, method: 'no_such_method' },
+      ]),
+    });
+    const [chainId, failure] = await response.json();
+    expect(chainId.result).toBe('0x7a69');
+    expect(failure.error).toBeDefined();
+  });
+
+  it('allows the app origin and rejects non-POST requests', async () => {
+    const preflight = await fetch(server.url, { method: 'OPTIONS' });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('*');
+    expect((await fetch(server.url)).status).toBe(405);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, inject, it } from 'vitest';
+import { ethers } from 'ethers';
+
+import hostContractAddresses from '../../../../fhevmtemp/precompiled-fhevm-host-contracts-addresses.json';
+import {
+  HARDHAT_HOST_CONTRACT_ADDRESSES,
+  HARDHAT_NETWORK,
+  SEPOLIA_NETWORK,
+  getFhevmNetworkByChainId,
+  networkFromHostContractAddresses,
+  resolveFhevmNetwork,
+  toRelayerConfig,
+} from '../src/core/index.js';
+
+describe('network presets', () => {
+  it('resolves preset names and passes descriptors through', () => {
+    expect(resolveFhevmNetwork()).toBe(SEPOLIA_NETWORK);
+    expect(resolveFhevmNetwork('hardhat')).toBe(HARDHAT_NETWORK);
+
+    const custom = { ...SEPOLIA_NETWORK, name: 'custom' };
+    expect(resolveFhevmNetwork(custom)).toBe(custom);
+  });
+
+  it('names the presets when the name is unknown', () => {
+    expect(() => resolveFhevmNetwork('mainnet' as 'sepolia')).toThrow(/sepolia, hardhat/);
+  });
+
+  it('finds presets by chain id', () => {
+    expect(getFhevmNetworkByChainId(11155111)).toBe(SEPOLIA_NETWORK);
+    expect(getFhevmNetworkByChainId(31337)).toBe(HARDHAT_NETWORK);
+    expect(getFhevmNetworkByChainId(1)).toBeUndefined();
+  });
+});
+
+describe('HARDHAT_NETWORK', () => {
+  it('ships the host contract addresses the Hardhat plugin writes', () => {
+    expect(HARDHAT_HOST_CONTRACT_ADDRESSES).toMatchObject(hostContractAddresses);
+    expect(HARDHAT_NETWORK).toMatchObject({
+      chainId: 31337,
+      aclContractAddress: hostContractAddresses.ACLAddress,
+      coprocessorContractAddress: hostContractAddresses.CoprocessorAddress,
+      inputVerifierContractAddress: hostContractAddresses.InputVerifierAddress,
+      kmsContractAddress: HARDHAT_HOST_CONTRACT_ADDRESSES.KMSVerifierAddress,
+      mock: true,
+    });
+  });
+
+  it('matches the contracts the Hardhat node serves', async () => {
+    const provider = new ethers.JsonRpcProvider(inject('rpcUrl'), 31337, { staticNetwork: true });
+    try {
+      const metadata = await provider.send('fhevm_relayer_metadata', []);
+      expect(Number(metadata.chainId)).toBe(HARDHAT_NETWORK.chainId);
+      expect(Number(metadata.gatewayChainId)).toBe(HARDHAT_NETWORK.gatewayChainId);
+      expect(ethers.getAddress(metadata.ACLAddress)).toBe(HARDHAT_NETWORK.aclContractAddress);
+      expect(ethers.getAddress(metadata.KMSVerifierAddress)).toBe(HARDHAT_NETWORK.kmsContractAddress);
+      expect(ethers.getAddress(metadata.InputVerifierAddress)).toBe(HARDHAT_NETWORK.inputVerifierContractAddress);
+    } finally {
+      provider.destroy();
+    }
+  });
+});
+
+describe('networkFromHostContractAddresses', () => {
+  it('uses a listed KMS verifier and applies overrides', () => {
+    const kmsContractAddress = ethers.Wallet.createRandom().address;
+    const network = networkFromHostContractAddresses(
+      { ...hostContractAddresses, KMSVerifierAddress: kmsContractAddress },
+      { name: 'devnet', rpcUrl: 'http://127.0.0.1:9545' }
+    );
+    expect(network).toMatchObject({ name: 'devnet', kmsContractAddress, rpcUrl: 'http://127.0.0.1:9545' });
+  });
+
+  it("defaults the KMS verifier to the Hardhat plugin's and lets overrides replace it", () => {
+    expect(networkFromHostContractAddresses(hostContractAddresses).kmsContractAddress)
+      .toBe(HARDHAT_HOST_CONTRACT_ADDRESSES.KMSVerifierAddress);
+
+    const kmsContractAddress = ethers.Wallet.createRandom().address;
+    expect(networkFromHostContractAddresses(hostContractAddresses, { kmsContractAddress }).kmsContractAddress)
+      .toBe(kmsContractAddress);
+  });
+});
+
+describe('toRelayerConfig', () => {
+  it('maps the descriptor onto createInstance options', () => {
+    const provider = {};
+    const config = toRelayerConfig(SEPOLIA_NETWORK, provider);
+    expect(config).toEqual({
+      aclContractAddress: SEPOLIA_NETWORK.aclContractAddress,
+      kmsContractAddress: SEPOLIA_NETWORK.kmsContractAddress,
+      inputVerifierContractAddress: SEPOLIA_NETWORK.inputVerifierContractAddress,
+      verifyingContractAddressDecryption: SEPOLIA_NETWORK.verifyingContractAddressDecryption,
+      verifyingContractAddressInputVerification: SEPOLIA_NETWORK.verifyingContractAddressInputVerification,
+      chainId: SEPOLIA_NETWORK.chainId,
+      gatewayChainId: SEPOLIA_NETWORK.gatewayChainId,
+      relayerUrl: SEPOLIA_NETWORK.relayerUrl,
+      network: provider,
+    });
+  });
+});
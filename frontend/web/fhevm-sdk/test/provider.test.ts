@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, inject, it } from 'vitest';
+import { ethers } from 'ethers';
+
+import { Eip1193Provider, createNodeEip1193Provider, resolveNodeSigner } from '../src/core/index.js';
+import { hardhatAccount } from './fixtures.js';
+
+const CHAIN_ID = 31337;
+
+describe('resolveNodeSigner', () => {
+  let provider: ethers.JsonRpcProvider;
+
+  beforeAll(() => {
+    provider = new ethers.JsonRpcProvider(inject('rpcUrl'), CHAIN_ID, { staticNetwork: true });
+  });
+
+  afterAll(() => provider.destroy());
+
+  it('accepts a private key, a mnemonic or a signer', async () => {
+    const account = hardhatAccount(5);
+
+    const fromKey = resolveNodeSigner({ privateKey: account.privateKey }, provider);
+    expect(await fromKey.getAddress()).toBe(account.address);
+    expect(fromKey.provider).toBe(provider);
+
+    const fromMnemonic = resolveNodeSigner({ mnemonic: account.mnemonic!.phrase, path: account.path! }, provider);
+    expect(await fromMnemonic.getAddress()).toBe(account.address);
+
+    expect(resolveNodeSigner(account, provider).provider).toBe(provider);
+  });
+
+  it('leaves a signer that has its own provider alone', () => {
+    const own = new ethers.JsonRpcProvider(inject('rpcUrl'), CHAIN_ID, { staticNetwork: true });
+    const signer = hardhatAccount(5, own);
+    expect(resolveNodeSigner(signer, provider)).toBe(signer);
+    own.destroy();
+  });
+});
+
+describe('createNodeEip1193Provider', () => {
+  const account = hardhatAccount(5);
+  let rpc: ethers.JsonRpcProvider;
+  let eip1193: Eip1193Provider;
+
+  beforeAll(() => {
+    rpc = new ethers.JsonRpcProvider(inject('rpcUrl'), CHAIN_ID, { staticNetwork: true, pollingInterval: 100 });
+    eip1193 = createNodeEip1193Provider(rpc, CHAIN_ID, account.connect(rpc));
+  });
+
+  afterAll(() => rpc.destroy());
+
+  it('answers chain and account methods itself', async () => {
+    expect(await eip1193.request({ method: 'eth_chainId' })).toBe('0x7a69');
+    expect(await eip1193.request({ method: 'net_version' })).toBe('31337');
+    expect(await eip1193.request({ method: 'eth_requestAccounts' })).toEqual([account.address]);
+  });
+
+  it('forwards everything else to the JSON-RPC endpoint', async () => {
+    const balance = await eip1193.request({ method: 'eth_getBalance', params: [account.address, 'latest'] });
+    expect(BigInt(balance)).toBeGreaterThan(0n);
+  });
+
+  it('signs EIP-712 data with the signer', async () => {
+    const domain = { name: 'Test', version: '1', chainId: CHAIN_ID };
+    const types = { Greeting: [{ name: 'text', type: 'string' }] };
+    const message = { text: 'hello' };
+    const typedData = {
+      domain,
+      types: { EIP712Domain: [{ name: 'name', type: 'string' }], ...types },
+      primaryType: 'Greeting',
+      message,
+    };
+
+    const signature = await eip1193.request({
+      method: 'eth_signTypedData_v4',
+      params: [account.address, JSON.stringify(typedData)],
+    });
+    expect(ethers.verifyTypedData(domain, types, message, signature)).toBe(account.address);
+  });
+
+  it('signs messages, hex or text', async () => {
+    const signature = await eip1193.request({ method: 'personal_sign', params: [ethers.hexlify(ethers.toUtf8Bytes('hi')), account.address] });
+    expect(ethers.verifyMessage('hi', signature)).toBe(account.address);
+  });
+
+  it('sends transactions from JSON-RPC transaction objects', async () => {
+    const to = hardhatAccount(6).address;
+    const before = await rpc.getBalance(to);
+    const hash = await eip1193.request({
+      method: 'eth_sendTransaction',
+      params: [{ from: account.address, to, value: '0x3e8', gas: '0x5208' }],
+    });
+    await rpc.waitForTransaction(hash);
+    expect(await rpc.getBalance(to)).toBe(before + 1000n);
+  });
+
+  it('refuses to sign for another account or switch chains', async () => {
+    await expect(
+      eip1193.request({ method: 'personal_sign', params: ['0x01', hardhatAccount(6).address] })
+    ).rejects.toThrow(/Cannot sign for/);
+    await expect(eip1193.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x1' }] })).rejects.toThrow(
+      /cannot switch to 1/
+    );
+    expect(await eip1193.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x7a69' }] })).toBeNull();
+  });
+
+  it('is read-only without a signer', async () => {
+    const readOnly = createNodeEip1193Provider(rpc, CHAIN_ID);
+    expect(await readOnly.request({ method: 'eth_accounts' })).toEqual([]);
+    await expect(readOnly.request({ method: 'personal_sign', params: ['0x01', account.address] })).rejects.toThrow(
+      /No signer configured/
+    );
+  });
+});
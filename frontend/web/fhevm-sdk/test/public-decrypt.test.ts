@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, inject, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  FhevmClient,
+  FhevmErrorCode,
+  HandleTypeMismatchError,
+  MissingDecryptionProofError,
+  ProofRejectedError,
+  encodeClearValues,
+  revealAndVerify,
+} from '../src/core/index.js';
+import { BargainFixture, SETTLEMENT_PRICE, bargainContract, createTestClient, deployBargainSession, fakeHandle } from './fixtures.js';
+
+const MATCHED = 3n;
+
+describe('encodeClearValues', () => {
+  it('encodes each value with the Solidity type of its handle, in handle order', () => {
+    const flag = fakeHandle('ebool', 1);
+    const amount = fakeHandle('euint64', 2);
+    const owner = fakeHandle('eaddress', 3);
+    const address = ethers.getAddress(`0x${'ab'.repeat(20)}`);
+
+    const encoded = encodeClearValues([flag, amount, owner], {
+      [owner]: BigInt(address),
+      [amount]: 450n,
+      [flag]: 1n,
+    });
+    expect(encoded).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['bool', 'uint64', 'address'], [true, 450n, address]));
+  });
+
+  it('finds values keyed by byte handles or as passed', () => {
+    const handle = fakeHandle('euint8');
+    const upper = handle.toUpperCase().replace('0X', '0x');
+    expect(encodeClearValues([upper], { [upper]: 7n })).toBe(encodeClearValues([ethers.getBytes(handle)], { [handle]: 7n }));
+  });
+
+  it('throws instead of encoding missing or out-of-range values', () => {
+    expect(() => encodeClearValues([fakeHandle('euint8')], {})).toThrow(/No clear value/);
+    expect(() => encodeClearValues([fakeHandle('euint8')], { [fakeHandle('euint8')]: 256n })).toThrow();
+  });
+});
+
+describe('publicDecrypt', () => {
+  let fixture: BargainFixture;
+  let client: FhevmClient;
+  let handles: string[];
+
+  beforeAll(async () => {
+    fixture = await deployBargainSession();
+    client = createTestClient();
+    await client.init();
+    handles = [fixture.handles.match, fixture.handles.settlement];
+  });
+
+  function relayerAnswers(answer: (result: any) => any) {
+    const instance = client.getInstance()!;
+    const publicDecrypt = instance.publicDecrypt.bind(instance);
+    return vi.spyOn(instance, 'publicDecrypt').mockImplementationOnce(async handles => answer(await publicDecrypt(handles)));
+  }
+
+  it('checks the expected types before asking the relayer', async () => {
+    const publicDecrypt = vi.spyOn(client.getInstance()!, 'publicDecrypt');
+    await expect(client.publicDecrypt(handles, { expectedTypes: ['ebool', 'euint32'] })).rejects.toBeInstanceOf(
+      HandleTypeMismatchError
+    );
+    expect(publicDecrypt).not.toHaveBeenCalled();
+    publicDecrypt.mockRestore();
+  });
+
+  it('fails closed without a decryption proof', async () => {
+    relayerAnswers(result => ({ ...result, decryptionProof: '0x' }));
+    await expect(client.publicDecrypt(handles)).rejects.toBeInstanceOf(MissingDecryptionProofError);
+  });
+
+  it('fails closed when the encoding does not match the clear values', async () => {
+    relayerAnswers(result => ({
+      ...result,
+      abiEncodedClearValues: ethers.AbiCoder.defaultAbiCoder().encode(['bool', 'uint64'], [true, 1n]),
+    }));
+    const attempt = client.publicDecrypt(handles);
+    await expect(attempt).rejects.toBeInstanceOf(ProofRejectedError);
+    await expect(attempt).rejects.toMatchObject({ code: FhevmErrorCode.PROOF_REJECTED });
+  });
+
+  describe('revealAndVerify', () => {
+    let provider: ethers.JsonRpcProvider;
+
+    beforeAll(() => {
+      provider = new ethers.JsonRpcProvider(inject('rpcUrl'), 31337, { staticNetwork: true, pollingInterval: 100 });
+    });
+
+    afterAll(() => provider.destroy());
+
+    it('submits values and proof the contract accepts', async () => {
+      const bargain = bargainContract(fixture.contractAddress, fixture.buyer.connect(provider));
+
+      const { decryptionResult, transactionReceipt } = await revealAndVerify({
+        client,
+        handles,
+        expectedTypes: ['ebool', 'euint64'],
+        submit: (abiEncodedClearValues, decryptionProof) =>
+          bargain.resolveMatch(fixture.sessionId, abiEncodedClearValues, decryptionProof),
+      });
+
+      expect(transactionReceipt?.status).toBe(1);
+      expect(decryptionResult.clearValues[fixture.handles.settlement]).toBe(BigInt(SETTLEMENT_PRICE));
+      expect(await bargain.getSessionState(fixture.sessionId)).toBe(MATCHED);
+    });
+  });
+});
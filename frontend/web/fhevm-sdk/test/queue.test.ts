@@ -0,0 +1,217 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+
+import {
+  AclDeniedError,
+  DecryptionBackend,
+  DecryptionQueue,
+  FhevmErrorCode,
+  FhevmSigner,
+  HandleContractPair,
+  TypedClearValue,
+} from '../src/core/index.js';
+import {
+  BUYER_PRICE,
+  BargainFixture,
+  SETTLEMENT_PRICE,
+  createTestClient,
+  deployBargainSession,
+  fakeHandle,
+  hardhatAccount,
+} from './fixtures.js';
+
+const CONTRACT = ethers.getAddress(ethers.toBeHex(1, 20));
+
+/** Backend that answers each handle with its seed byte, and refuses the handles in `denied` as a batch */
+function fakeBackend(denied: string[] = []) {
+  const backend = {
+    userDecryptBatch: vi.fn(async (pairs: HandleContractPair[], _signer?: FhevmSigner) => {
+      const handles = pairs.map(({ handle }) => handle as string);
+      if (handles.some(handle => denied.includes(handle))) {
+        throw new AclDeniedError('not authorized to user decrypt');
+      }
+      return Object.fromEntries(handles.map(handle => [handle, BigInt(ethers.getBytes(handle)[0])])) as Record<string, TypedClearValue>;
+    }),
+    publicDecrypt: vi.fn(async (handles: string[]) => ({
+      clearValues: Object.fromEntries(handles.map(handle => [handle, 1n])),
+      abiEncodedClearValues: '0x' as const,
+      decryptionProof: '0x' as const,
+    })),
+  };
+  return backend satisfies DecryptionBackend;
+}
+
+describe('DecryptionQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the calls of one tick as one batch and decrypts repeated handles once', async () => {
+    const backend = fakeBackend();
+    const queue = new DecryptionQueue(backend);
+    const [a, b] = [fakeHandle('euint8', 1), fakeHandle('euint8', 2)];
+
+    const first = queue.userDecrypt(a, CONTRACT);
+    const repeated = queue.userDecrypt(a.toUpperCase().replace('0X', '0x'), CONTRACT.toLowerCase());
+    const other = queue.userDecrypt(b, CONTRACT);
+    expect(repeated).toBe(first);
+
+    expect(await Promise.all([first, repeated, other])).toEqual([1n, 1n, 2n]);
+    expect(backend.userDecryptBatch).toHaveBeenCalledOnce();
+    expect(backend.userDecryptBatch.mock.calls[0][0]).toEqual([
+      { handle: a, contractAddress: CONTRACT },
+      { handle: b, contractAddress: CONTRACT },
+    ]);
+
+    // Answered requests are not kept: a later call asks again
+    await queue.userDecrypt(a, CONTRACT);
+    expect(backend.userDecryptBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('batches per signer', async () => {
+    const backend = fakeBackend();
+    const queue = new DecryptionQueue(backend);
+    const [buyer, seller] = [hardhatAccount(1), hardhatAccount(2)];
+
+    await Promise.all([
+      queue.userDecrypt(fakeHandle('euint8', 1), CONTRACT, buyer),
+      queue.userDecrypt(fakeHandle('euint8', 1), CONTRACT, seller),
+      queue.userDecrypt(fakeHandle('euint8', 2), CONTRACT, buyer),
+    ]);
+    expect(backend.userDecryptBatch.mock.calls.map(([pairs, signer]) => [pairs.length, signer])).toEqual([
+      [2, buyer],
+      [1, seller],
+    ]);
+  });
+
+  it('collects calls for the whole window, unless flushed', async () => {
+    vi.useFakeTimers();
+    const backend = fakeBackend();
+    const queue = new DecryptionQueue(backend, { windowMs: 50 });
+
+    const first = queue.userDecrypt(fakeHandle('euint8', 1), CONTRACT);
+    await vi.advanceTimersByTimeAsync(30);
+    const second = queue.userDecrypt(fakeHandle('euint8', 2), CONTRACT);
+    expect(backend.userDecryptBatch).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(20);
+    await Promise.all([first, second]);
+    expect(backend.userDecryptBatch).toHaveBeenCalledOnce();
+
+    const third = queue.userDecrypt(fakeHandle('euint8', 3), CONTRACT);
+    queue.flush();
+    expect(await third).toBe(3n);
+    expect(backend.userDecryptBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a refused batch item by item so the allowed handles still decrypt', async () => {
+    const [allowed, refused] = [fakeHandle('euint8', 1), fakeHandle('euint8', 2)];
+    const backend = fakeBackend([refused]);
+    const queue = new DecryptionQueue(backend);
+
+    const results = await Promise.allSettled([queue.userDecrypt(allowed, CONTRACT), queue.userDecrypt(refused, CONTRACT)]);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 1n });
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: { code: FhevmErrorCode.ACL_DENIED } });
+    expect(backend.userDecryptBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails the whole batch for errors a retry would not fix', async () => {
+    const backend = fakeBackend();
+    const outage = new Error('fetch failed');
+    backend.userDecryptBatch.mockRejectedValueOnce(outage);
+    const queue = new DecryptionQueue(backend);
+
+    const results = await Promise.allSettled([
+      queue.userDecrypt(fakeHandle('euint8', 1), CONTRACT),
+      queue.userDecrypt(fakeHandle('euint8', 2), CONTRACT),
+    ]);
+    expect(results).toEqual([
+      { status: 'rejected', reason: outage },
+      { status: 'rejected', reason: outage },
+    ]);
+    expect(backend.userDecryptBatch).toHaveBeenCalledOnce();
+  });
+
+  it('rejects handles the backend leaves out', async () => {
+    const backend = fakeBackend();
+    backend.userDecryptBatch.mockResolvedValueOnce({});
+    const queue = new DecryptionQueue(backend);
+    await expect(queue.userDecrypt(fakeHandle('euint8', 1), CONTRACT)).rejects.toThrow(/No clear value returned/);
+  });
+
+  it('sends at most maxConcurrency batches at once', async () => {
+    const backend = fakeBackend();
+    let inFlight = 0;
+    let maxInFlight = 0;
+    backend.userDecryptBatch.mockImplementation(async pairs => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return { [pairs[0].handle as string]: 1n };
+    });
+    const queue = new DecryptionQueue(backend, { maxConcurrency: 2 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(i => queue.userDecrypt(fakeHandle('euint8', 1), CONTRACT, hardhatAccount(i))));
+    expect(backend.userDecryptBatch).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+    expect(() => new DecryptionQueue(backend, { maxConcurrency: 0 })).toThrow(/positive integer/);
+  });
+
+  it('batches public decryptions and types their values', async () => {
+    const backend = fakeBackend();
+    const queue = new DecryptionQueue(backend);
+
+    expect(await Promise.all([queue.publicDecrypt(fakeHandle('ebool', 1)), queue.publicDecrypt(fakeHandle('euint64', 2))])).toEqual([
+      true,
+      1n,
+    ]);
+    expect(backend.publicDecrypt).toHaveBeenCalledOnce();
+    expect(backend.userDecryptBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe('client decryptions through the queue', () => {
+  let fixture: BargainFixture;
+
+  beforeAll(async () => {
+    fixture = await deployBargainSession();
+  });
+
+  it('user-decrypts values requested together with one relayer call and one signature', async () => {
+    const client = createTestClient(fixture.buyer);
+    const instance = await client.init();
+    const userDecrypt = vi.spyOn(instance, 'userDecrypt');
+    const signTypedData = vi.spyOn(fixture.buyer, 'signTypedData');
+
+    const values = await Promise.all([
+      client.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress, fixture.buyer),
+      client.decryptValue(fixture.handles.settlement, fixture.contractAddress, fixture.buyer),
+      client.decryptValue(fixture.handles.match, fixture.contractAddress, fixture.buyer),
+    ]);
+    expect(values).toEqual([BigInt(BUYER_PRICE), BigInt(SETTLEMENT_PRICE), true]);
+    expect(userDecrypt).toHaveBeenCalledOnce();
+    expect(signTypedData).toHaveBeenCalledOnce();
+  });
+
+  it('still decrypts the allowed values of a batch with a refused handle', async () => {
+    const client = createTestClient(fixture.buyer);
+    await client.init();
+
+    const [own, sellers] = await Promise.allSettled([
+      client.decryptValue(fixture.handles.buyerPrice, fixture.contractAddress, fixture.buyer),
+      client.decryptValue(fixture.handles.sellerPrice, fixture.contractAddress, fixture.buyer),
+    ]);
+    expect(own).toEqual({ status: 'fulfilled', value: BigInt(BUYER_PRICE) });
+    expect(sellers).toMatchObject({ status: 'rejected', reason: { code: FhevmErrorCode.ACL_DENIED } });
+  });
+
+  it('public-decrypts values requested together with one relayer call', async () => {
+    const client = createTestClient();
+    const instance = await client.init();
+    const publicDecrypt = vi.spyOn(instance, 'publicDecrypt');
+
+    expect(
+      await Promise.all([client.publicDecryptValue(fixture.handles.match), client.publicDecryptValue(fixture.handles.settlement)])
+    ).toEqual([true, BigInt(SETTLEMENT_PRICE)]);
+    expect(publicDecrypt).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Starts the repository's Hardhat node (with the fhevm plugin's mock relayer) for the test run.
+ * Set FHEVM_TEST_RPC_URL to use a node that is already running instead.
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import type { GlobalSetupContext } from 'vitest/node';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    /** JSON-RPC endpoint of the Hardhat node, which is also the mock relayer */
+    rpcUrl: string;
+  }
+}
+
+const REPO_ROOT = fileURLToPath(new URL('../../../../../', import.meta.url));
+const PORT = 8547;
+const STARTUP_TIMEOUT_MS = 90_000;
+
+async function isMockRelayer(url: string) {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'fhevm_relayer_metadata', params: [] }),
+    });
+    const { result } = await response.json();
+    return Boolean(result?.ACLAddress);
+  } catch {
+    return false;
+  }
+}
+
+async function waitForMockRelayer(url: string, node: ChildProcess) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (node.exitCode !== null) {
+      throw new Error(`Hardhat node exited with code ${node.exitCode} before serving ${url}`);
+    }
+    if (await isMockRelayer(url)) return;
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  throw new Error(`Hardhat node did not serve the fhevm mock relayer at ${url} within ${STARTUP_TIMEOUT_MS} ms`);
+}
+
+export default async function setup({ provide }: GlobalSetupContext) {
+  const existing = process.env.FHEVM_TEST_RPC_URL;
+  if (existing) {
+    provide('rpcUrl', existing);
+    return;
+  }
+
+  const url = `http://127.0.0.1:${PORT}`;
+  const node = spawn(`${REPO_ROOT}node_modules/.bin/hardhat`, ['node', '--port', String(PORT)], {
+    cwd: REPO_ROOT,
+    stdio: 'ignore',
+  });
+
+  try {
+    await waitForMockRelayer(url, node);
+  } catch (err) {
+    node.kill();
+    throw err;
+  }
+  provide('rpcUrl', url);
+
+  return () => {
+    node.kill();
+  };
+}
@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  EncryptedIndexedDbStore,
+  FileStore,
+  IndexedDbStore,
+  createPersistentStore,
+} from '../src/core/index.js';
+
+const SECRET = { privateKey: 'secret-private-key', durationDays: 10 };
+
+describe('EncryptedIndexedDbStore', () => {
+  const store = new EncryptedIndexedDbStore<typeof SECRET>('decryption-authorizations');
+  const raw = new IndexedDbStore<any>('decryption-authorizations');
+
+  afterEach(() => store.clear());
+
+  it('round-trips values', async () => {
+    await store.set('a', SECRET);
+    expect(await store.get('a')).toEqual(SECRET);
+    expect(await store.keys()).toEqual(['a']);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('keeps only ciphertext at rest', async () => {
+    await store.set('a', SECRET);
+    const entry = await raw.get('a');
+    expect(entry.iv).toHaveLength(12);
+    expect(new TextDecoder().decode(entry.data)).not.toContain(SECRET.privateKey);
+  });
+
+  it('encrypts under a non-extractable key', async () => {
+    await store.set('a', SECRET);
+    const key = await new IndexedDbStore<CryptoKey>('cache-keys').get('decryption-authorizations');
+    expect(key?.extractable).toBe(false);
+    await expect(crypto.subtle.exportKey('raw', key!)).rejects.toThrow();
+  });
+
+  it('treats plaintext and moved entries as misses and drops them', async () => {
+    await raw.set('legacy', SECRET);
+    expect(await store.get('legacy')).toBeUndefined();
+    expect(await raw.get('legacy')).toBeUndefined();
+
+    // The entry key is authenticated, so an entry copied under another key does not decrypt
+    await store.set('a', SECRET);
+    await raw.set('b', await raw.get('a'));
+    expect(await store.get('b')).toBeUndefined();
+  });
+});
+
+describe('FileStore', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fhevm-sdk-'));
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  it('persists entries in a file only the owner can read', async () => {
+    const file = join(dir, 'store', 'authorizations.json');
+    await new FileStore<typeof SECRET>(file).set('a', SECRET);
+
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+    expect((await stat(join(dir, 'store'))).mode & 0o777).toBe(0o700);
+    expect(await new FileStore<typeof SECRET>(file).get('a')).toEqual(SECRET);
+  });
+
+  it('tightens the mode of a file created elsewhere', async () => {
+    const file = join(dir, 'existing.json');
+    await writeFile(file, '{}', { mode: 0o644 });
+    await new FileStore<typeof SECRET>(file).set('a', SECRET);
+    expect((await stat(file)).mode & 0o777).toBe(0o600);
+  });
+
+  it('keeps every entry of concurrent writes', async () => {
+    const store = new FileStore<number>(join(dir, 'concurrent.json'));
+    await Promise.all([1, 2, 3, 4].map(n => store.set(String(n), n)));
+    expect((await store.keys()).sort()).toEqual(['1', '2', '3', '4']);
+
+    await store.clear();
+    expect(await store.keys()).toEqual([]);
+  });
+});
+
+describe('createPersistentStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('prefers encrypted IndexedDB, then a file in Node.js', async () => {
+    expect(await createPersistentStore('decrypted-values')).toBeInstanceOf(EncryptedIndexedDbStore);
+
+    vi.stubGlobal('indexedDB', undefined);
+    expect(await createPersistentStore('decrypted-values')).toBeInstanceOf(FileStore);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  asAddress,
+  asBigInt,
+  asBoolean,
+  formatFixedPoint,
+  parseFixedPoint,
+  toSafeNumber,
+  toTypedClearValue,
+} from '../src/core/index.js';
+import { fakeHandle, hardhatAccount } from './fixtures.js';
+
+describe('toTypedClearValue', () => {
+  it('keeps integers as bigint, beyond 2^53 too', () => {
+    expect(toTypedClearValue(fakeHandle('euint32'), 500n)).toBe(500n);
+    expect(toTypedClearValue(fakeHandle('euint64'), '0xffffffffffffffff')).toBe(2n ** 64n - 1n);
+    expect(toTypedClearValue(fakeHandle('euint256'), 2n ** 255n)).toBe(2n ** 255n);
+  });
+
+  it('turns ebool into a boolean', () => {
+    expect(toTypedClearValue(fakeHandle('ebool'), true)).toBe(true);
+    expect(toTypedClearValue(fakeHandle('ebool'), 0n)).toBe(false);
+    expect(toTypedClearValue(fakeHandle('ebool'), '0x01')).toBe(true);
+  });
+
+  it('turns eaddress into a checksummed address', () => {
+    const { address } = hardhatAccount(1);
+    expect(toTypedClearValue(fakeHandle('eaddress'), BigInt(address))).toBe(address);
+    expect(toTypedClearValue(fakeHandle('eaddress'), '0x1')).toBe(`0x${'0'.repeat(39)}1`);
+  });
+});
+
+describe('typed accessors', () => {
+  it('return the value of the expected type and refuse others', () => {
+    const { address } = hardhatAccount(1);
+    expect(asBigInt(5n)).toBe(5n);
+    expect(asBoolean(true)).toBe(true);
+    expect(asAddress(address)).toBe(address);
+
+    expect(() => asBigInt(true)).toThrow(/got ebool/);
+    expect(() => asBoolean(5n)).toThrow(/encrypted integer/);
+    expect(() => asAddress(false)).toThrow(/got ebool/);
+  });
+
+  it('only convert to numbers that stay exact', () => {
+    expect(toSafeNumber(BigInt(Number.MAX_SAFE_INTEGER))).toBe(Number.MAX_SAFE_INTEGER);
+    expect(() => toSafeNumber(BigInt(Number.MAX_SAFE_INTEGER) + 1n)).toThrow(RangeError);
+  });
+});
+
+describe('fixed point', () => {
+  it('formats integers with implied decimals', () => {
+    expect(formatFixedPoint(12345n, 2)).toBe('123.45');
+    expect(formatFixedPoint(5n, 3)).toBe('0.005');
+    expect(formatFixedPoint(-12300n, 2)).toBe('-123');
+    expect(formatFixedPoint(12300n, 2, { minFractionDigits: 2 })).toBe('123.00');
+    expect(formatFixedPoint(10n ** 18n + 5n * 10n ** 15n, 18, { maxFractionDigits: 2 })).toBe('1.01');
+    expect(() => formatFixedPoint(1n, -1)).toThrow(RangeError);
+  });
+
+  it('parses decimals without losing digits', () => {
+    expect(parseFixedPoint('123.45', 2)).toBe(12345n);
+    expect(parseFixedPoint(' .5 ', 2)).toBe(50n);
+    expect(parseFixedPoint('-1', 18)).toBe(-(10n ** 18n));
+    expect(() => parseFixedPoint('1.234', 2)).toThrow(RangeError);
+    expect(() => parseFixedPoint('abc', 2)).toThrow(/not a decimal/);
+  });
+});
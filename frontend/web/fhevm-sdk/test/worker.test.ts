@@ -0,0 +1,256 @@
+import { afterEach, beforeAll, describe, expect, inject, it, vi } from 'vitest';
+
+import {
+  CancelledError,
+  EncryptionProgress,
+  EncryptionWorkerRequest,
+  EncryptionWorkerResponse,
+  FhevmEncryptionWorker,
+  FhevmErrorCode,
+  FhevmInstance,
+  FhevmWorkerOptions,
+  InputRangeError,
+  RelayerUnavailableError,
+  createMockFhevmInstance,
+  getHandleType,
+  toRelayerConfig,
+} from '../src/core/index.js';
+import { hardhatAccount, testNetwork } from './fixtures.js';
+
+const SDK_URL = 'https://cdn.test/relayer-sdk-js.umd.cjs';
+const account = hardhatAccount(1);
+const contractAddress = testNetwork().aclContractAddress;
+
+/**
+ * Runs core/encryption.worker in-process: a fresh copy of the module per worker, a stubbed worker scope,
+ * and messages structured-cloned both ways like a real worker's
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<EncryptionWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+  readonly received: EncryptionWorkerRequest[] = [];
+  private scope: any;
+  private readonly loaded: Promise<void>;
+
+  constructor(relayerSdk: unknown) {
+    this.scope = {
+      onmessage: null,
+      postMessage: (message: EncryptionWorkerResponse) => {
+        const data = structuredClone(message);
+        setTimeout(() => {
+          if (!this.terminated) this.onmessage?.({ data } as MessageEvent<EncryptionWorkerResponse>);
+        });
+      },
+      importScripts: vi.fn((url: string) => {
+        if (url === SDK_URL) this.scope.RelayerSDK = relayerSdk;
+      }),
+    };
+    this.loaded = this.load();
+  }
+
+  get importScripts() {
+    return this.scope.importScripts;
+  }
+
+  postMessage(message: EncryptionWorkerRequest) {
+    const data = structuredClone(message);
+    this.received.push(data);
+    this.loaded.then(() => {
+      if (!this.terminated) this.scope.onmessage({ data });
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  private async load() {
+    vi.stubGlobal('self', this.scope);
+    vi.resetModules();
+    try {
+      await import('../src/core/encryption.worker.js');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  }
+}
+
+describe('FhevmEncryptionWorker', () => {
+  let mockInstance: FhevmInstance;
+  let workers: FakeWorker[];
+  let relayerSdk: { initSDK: ReturnType<typeof vi.fn>; createInstance: ReturnType<typeof vi.fn> };
+
+  beforeAll(async () => {
+    ({ instance: mockInstance } = await createMockFhevmInstance(testNetwork()));
+  });
+
+  function createWorker(options: Pick<FhevmWorkerOptions, 'wasm' | 'logger'> = {}) {
+    workers = [];
+    relayerSdk = {
+      initSDK: vi.fn().mockResolvedValue(undefined),
+      createInstance: vi.fn().mockResolvedValue(mockInstance),
+    };
+    return new FhevmEncryptionWorker(testNetwork(), inject('rpcUrl'), {
+      sdkUrl: SDK_URL,
+      ...options,
+      createWorker: () => {
+        const worker = new FakeWorker(relayerSdk);
+        workers.push(worker);
+        return worker as unknown as Worker;
+      },
+    });
+  }
+
+  /** Relayer instance whose encryptions end with `encrypt` */
+  function encryptingWith(encrypt: () => Promise<unknown>): FhevmInstance {
+    return {
+      ...mockInstance,
+      createEncryptedInput: (...args: Parameters<FhevmInstance['createEncryptedInput']>) =>
+        Object.assign(mockInstance.createEncryptedInput(...args), { encrypt }),
+    };
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads the relayer SDK in the worker and encrypts there', async () => {
+    const worker = createWorker();
+    const progress: EncryptionProgress[] = [];
+
+    const { handles, inputProof } = await worker.encrypt(
+      contractAddress,
+      account.address,
+      [
+        { type: 'euint32', value: 500 },
+        { type: 'ebool', value: true },
+      ],
+      { onProgress: update => progress.push(update) }
+    );
+
+    expect(handles.map(handle => getHandleType(handle))).toEqual(['euint32', 'ebool']);
+    expect(inputProof).toBeInstanceOf(Uint8Array);
+    expect(progress.map(({ stage }) => stage)).toEqual(['initializing', 'encrypting']);
+    expect(workers[0].importScripts).toHaveBeenCalledWith(SDK_URL);
+    expect(relayerSdk.createInstance).toHaveBeenCalledWith(toRelayerConfig(testNetwork(), inject('rpcUrl')));
+  });
+
+  it('notes readiness through the logger instead of the console', async () => {
+    const logger = { debug: vi.fn() };
+    const consoleLog = vi.spyOn(console, 'log');
+    await createWorker({ logger }).init();
+    expect(logger.debug).toHaveBeenCalledWith(expect.stringMatching(/worker ready/));
+    expect(consoleLog).not.toHaveBeenCalled();
+  });
+
+  it('sends validated builder calls, so range errors stay on the page', async () => {
+    const worker = createWorker();
+    await worker.init();
+
+    await expect(
+      worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 300 }])
+    ).rejects.toBeInstanceOf(InputRangeError);
+    expect(workers[0].received.map(({ type }) => type)).toEqual(['init']);
+
+    await worker.encrypt(contractAddress, account.address, [{ type: 'euint64', value: 2n ** 60n }]);
+    expect(workers[0].received[1]).toMatchObject({ type: 'encrypt', inputs: [{ method: 'add64', value: 2n ** 60n }] });
+  });
+
+  it('falls back to the local WASM files when the CDN ones fail', async () => {
+    const wasm = { tfheParams: '/wasm/tfhe.wasm', kmsParams: '/wasm/kms.wasm' };
+    const worker = createWorker({ wasm });
+    relayerSdk.initSDK.mockRejectedValueOnce(new Error('CORS'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await worker.init();
+    expect(relayerSdk.initSDK).toHaveBeenLastCalledWith(wasm);
+  });
+
+  it('generates decryption keypairs in the worker', async () => {
+    const worker = createWorker();
+    const keypair = await worker.generateKeypair();
+    expect(keypair.publicKey).toEqual(expect.any(String));
+    expect(keypair.privateKey).toEqual(expect.any(String));
+    expect(workers[0].received.map(({ type }) => type)).toEqual(['init', 'generateKeypair']);
+  });
+
+  it('classifies errors thrown in the worker like errors on the page', async () => {
+    const worker = createWorker();
+    relayerSdk.createInstance.mockResolvedValue(encryptingWith(() => Promise.reject(new TypeError('Failed to fetch'))));
+
+    await expect(worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 1 }])).rejects.toBeInstanceOf(
+      RelayerUnavailableError
+    );
+  });
+
+  it('terminates the worker to cancel a running encryption and starts a new one afterwards', async () => {
+    const worker = createWorker();
+    relayerSdk.createInstance.mockResolvedValueOnce(encryptingWith(() => new Promise(() => {})));
+    const controller = new AbortController();
+    const progress: EncryptionProgress[] = [];
+
+    const running = worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 1 }], {
+      signal: controller.signal,
+      onProgress: update => {
+        progress.push(update);
+        if (update.stage === 'encrypting') controller.abort('user cancelled');
+      },
+    });
+    await expect(running).rejects.toBeInstanceOf(CancelledError);
+    await expect(running).rejects.toMatchObject({ code: FhevmErrorCode.CANCELLED, cause: 'user cancelled' });
+    expect(workers[0].terminated).toBe(true);
+
+    await worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 1 }]);
+    expect(workers).toHaveLength(2);
+  });
+
+  it('lets a queued request leave without touching the running one', async () => {
+    const worker = createWorker();
+    await worker.init();
+    const controller = new AbortController();
+
+    const first = worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 1 }]);
+    const second = worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 2 }], { signal: controller.signal });
+    controller.abort();
+
+    await expect(second).rejects.toBeInstanceOf(CancelledError);
+    await expect(first).resolves.toBeDefined();
+    expect(workers[0].terminated).toBe(false);
+    expect(workers[0].received.filter(({ type }) => type === 'encrypt')).toHaveLength(1);
+  });
+
+  it('rejects without starting when the signal is already aborted', async () => {
+    const worker = createWorker();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 1 }], { signal: controller.signal })
+    ).rejects.toBeInstanceOf(CancelledError);
+    expect(workers).toHaveLength(0);
+  });
+
+  it('restarts after a failed start', async () => {
+    const worker = createWorker();
+    relayerSdk.createInstance.mockRejectedValueOnce(new Error('bad config'));
+
+    await expect(worker.init()).rejects.toThrow('bad config');
+    expect(workers[0].terminated).toBe(true);
+
+    await expect(worker.init()).resolves.toBeUndefined();
+    expect(workers).toHaveLength(2);
+  });
+
+  it('fails calls in flight when the worker crashes', async () => {
+    const worker = createWorker();
+    relayerSdk.createInstance.mockResolvedValueOnce(encryptingWith(() => new Promise(() => {})));
+    await worker.init();
+
+    const running = worker.encrypt(contractAddress, account.address, [{ type: 'euint8', value: 1 }]);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    workers[0].onerror?.({ message: 'out of memory', preventDefault: () => {} } as ErrorEvent);
+
+    await expect(running).rejects.toThrow('Encryption worker failed: out of memory');
+  });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // One Hardhat node for the whole run; its mock relayer backs the client specs
+    globalSetup: ['test/setup/hardhat-node.ts'],
+    // Specs send transactions from the same Hardhat accounts, so they must not race for nonces
+    fileParallelism: false,
+    testTimeout: 60_000,
+    hookTimeout: 120_000,
+    coverage: {
+      include: ['src/core/**/*.ts'],
+    },
+  },
+});
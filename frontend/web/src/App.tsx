@@ -1,71 +1,217 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import React, { useEffect, useRef, useState } from "react";
+import { getContractReadOnly, getContractWithSigner, getSigner, normAddr } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  useFhevm,
+  useEncrypt,
+  createBargainSession,
+  joinBargainSession,
+  resolveDealMatch,
+  revealSessionPrice,
+  cancelBargainSession,
+  submitCounterOffer,
+  getRoundInfo,
+  getNegotiationTurn,
+  getSessionTimeline,
+  NegotiationRound,
+  buildInviteLink,
+  parseInviteLink,
+  decryptValue,
+  toSafeNumber,
+  clearDecryptionAuthorizations,
+  clearDecryptedValues,
+  canDecrypt,
+  revalidateDecryptedValues,
+  useDecryptedValue,
+  FhevmErrorCode,
+  getFhevmErrorCode,
+  getDefaultFhevmClient,
+  EncryptionStage,
+  InitializeFheInstanceOptions,
+  SettlementPolicy,
+  SETTLEMENT_POLICY_LABELS,
+  SessionState,
+  SESSION_STATE_LABELS,
+  effectiveSessionState,
+  getSessionCountdown,
+  isSessionDead,
+  isSessionPending,
+  canSessionExpire
+} from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
 interface BargainData {
   id: string;
-  name: string;
-  encryptedPrice: string;
-  publicValue1: number;
-  publicValue2: number;
-  description: string;
-  creator: string;
+  buyer: string;
+  seller: string;
+  publicBuyerPrice: number;
+  publicSellerPrice: number;
+  buyerRevealed: boolean;
+  sellerRevealed: boolean;
+  state: SessionState;
+  settlementPolicy: SettlementPolicy;
+  bidWeightPercent: number;
+  settlementPrice: number;
+  privateMode: boolean;
   timestamp: number;
-  isVerified: boolean;
-  decryptedValue: number;
+  deadline: number;
+  round: number;
+  maxRounds: number;
+  buyerCountered: boolean;
+  sellerCountered: boolean;
+  inviteOnly: boolean;
+  /** Whether the connected account may join as seller */
+  canJoin: boolean;
+  /** Handle of the connected account's own bid or ask, when it is a participant */
+  myPriceHandle?: string;
+  /** Whether the ACL lets the connected account decrypt that price; unknown until FHEVM is ready */
+  canDecryptMyPrice?: boolean;
 }
 
-interface BargainAnalysis {
-  priceMatch: number;
-  negotiationScore: number;
-  dealProbability: number;
-  timeSensitivity: number;
-  marketPosition: number;
-}
+type BargainRole = "buyer" | "seller" | "none";
+
+/** Proofs are generated in a Web Worker so the modals keep rendering meanwhile */
+const FHEVM_OPTIONS: InitializeFheInstanceOptions = {
+  worker: {
+    createWorker: () => new Worker(new URL("../fhevm-sdk/src/core/encryption.worker.ts", import.meta.url)),
+  },
+};
+
+const ENCRYPTION_STAGE_LABELS: Record<EncryptionStage, string> = {
+  initializing: "Loading FHE...",
+  encrypting: "Encrypting...",
+  done: "Encrypted"
+};
+
+const getRole = (bargain: BargainData, account?: string): BargainRole => {
+  if (!account) return "none";
+  if (normAddr(bargain.buyer) === normAddr(account)) return "buyer";
+  if (normAddr(bargain.seller) === normAddr(account)) return "seller";
+  return "none";
+};
+
+const hasSeller = (bargain: BargainData) => bargain.seller !== ethers.ZeroAddress;
+
+const getState = (bargain: BargainData, now: number) => effectiveSessionState(bargain.state, bargain.deadline, now);
+
+const STATUS_ICONS: Record<SessionState, string> = {
+  [SessionState.Open]: '⏳',
+  [SessionState.Joined]: '🔒',
+  [SessionState.Revealing]: '🔓',
+  [SessionState.Matched]: '🤝',
+  [SessionState.NoDeal]: '❌',
+  [SessionState.Expired]: '⌛',
+  [SessionState.Cancelled]: '🚫',
+  [SessionState.Countering]: '🔁',
+};
+
+const getStatus = (bargain: BargainData, now: number): { label: string; className: string } => {
+  const state = getState(bargain, now);
+  const className = state === SessionState.Matched
+    ? 'verified'
+    : isSessionPending(state) ? 'encrypted' : 'no-deal';
+  return { label: `${STATUS_ICONS[state]} ${SESSION_STATE_LABELS[state]}`, className };
+};
+
+const describeTurn = (bargain: BargainData, now: number, role: BargainRole) => {
+  const turn = getNegotiationTurn(getState(bargain, now), bargain);
+  if (!turn) return null;
+  if (turn === "both") return role === "none" ? "Either party" : "Your turn";
+  if (turn === role) return "Your turn";
+  return turn === "buyer" ? "Buyer's turn" : "Seller's turn";
+};
+
+const ROUND_OPTIONS = [1, 3, 5];
+
+const parseAddressList = (value: string) => value.split(/[\s,]+/).filter(Boolean);
+
+const inviteLinkFor = (sessionId: string) => buildInviteLink(sessionId, window.location.origin);
+
+const copyInviteLink = async (sessionId: string) => {
+  try {
+    await navigator.clipboard.writeText(inviteLinkFor(sessionId));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const DURATION_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
+
+const useNow = () => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+};
+
+const describePolicy = (bargain: BargainData) => bargain.settlementPolicy === SettlementPolicy.Weighted
+  ? `${SETTLEMENT_POLICY_LABELS[bargain.settlementPolicy]} (${bargain.bidWeightPercent}% bid)`
+  : SETTLEMENT_POLICY_LABELS[bargain.settlementPolicy];
+
+const shortAddr = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+const shortId = (id: string) => `${id.substring(0, 10)}...${id.substring(58)}`;
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const inviteSessionId = parseInviteLink(location.pathname);
+  const handledInvite = useRef<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [bargains, setBargains] = useState<BargainData[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingBargain, setCreatingBargain] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
-    visible: false, 
-    status: "pending", 
-    message: "" 
+  const [joiningBargain, setJoiningBargain] = useState<BargainData | null>(null);
+  const [submittingJoin, setSubmittingJoin] = useState(false);
+  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({
+    visible: false,
+    status: "pending",
+    message: ""
   });
-  const [newBargainData, setNewBargainData] = useState({ name: "", price: "", description: "" });
+  const [newBargainData, setNewBargainData] = useState({ price: "", policy: SettlementPolicy.Midpoint, bidWeightPercent: "50", durationHours: 24, maxRounds: 3, invitedSellers: "" });
+  const [joinBargainData, setJoinBargainData] = useState({ price: "" });
+  const [counteringBargain, setCounteringBargain] = useState<BargainData | null>(null);
+  const [submittingCounter, setSubmittingCounter] = useState(false);
+  const [counterOfferData, setCounterOfferData] = useState({ price: "" });
   const [selectedBargain, setSelectedBargain] = useState<BargainData | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [showClosed, setShowClosed] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [userHistory, setUserHistory] = useState<string[]>([]);
   const [contractAddress, setContractAddress] = useState("");
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
 
   const itemsPerPage = 5;
-  const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting} = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const now = useNow();
+  const { status, initialize, isInitialized, errorCode: fhevmErrorCode } = useFhevm(FHEVM_OPTIONS);
+  const { encrypt, cancel: cancelEncryption, isEncrypting, progress: encryptionStage } = useEncrypt();
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
       if (!isConnected) return;
       if (isInitialized || fhevmInitializing) return;
-      
+
       try {
         setFhevmInitializing(true);
         await initialize();
       } catch (error) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "error", 
-          message: "FHEVM initialization failed" 
+        setTransactionStatus({
+          visible: true,
+          status: "error",
+          message: "FHEVM initialization failed"
         });
         setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       } finally {
@@ -76,13 +222,28 @@ const App: React.FC = () => {
     initFhevmAfterConnection();
   }, [isConnected, isInitialized, initialize, fhevmInitializing]);
 
+  useEffect(() => {
+    if (status !== "error") return;
+    // The failed client still knows the network it was created for
+    const network = getDefaultFhevmClient().getNetwork();
+    setTransactionStatus({
+      visible: true,
+      status: "error",
+      message: fhevmErrorCode === FhevmErrorCode.WRONG_CHAIN
+        ? `Wrong network: switch your wallet to ${network.name} (chain ${network.chainId}) to use encryption`
+        : "FHEVM initialization failed"
+    });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+  }, [status, fhevmErrorCode]);
+
+  // Loaded again once FHEVM is ready, as the ACL checks of loadData need it
   useEffect(() => {
     const loadDataAndContract = async () => {
       if (!isConnected) {
         setLoading(false);
         return;
       }
-      
+
       try {
         await loadData();
         const contract = await getContractReadOnly();
@@ -95,171 +256,483 @@ const App: React.FC = () => {
     };
 
     loadDataAndContract();
-  }, [isConnected]);
+  }, [isConnected, isInitialized]);
 
   const loadData = async () => {
     if (!isConnected) return;
-    
+
     setIsRefreshing(true);
     try {
       const contract = await getContractReadOnly();
       if (!contract) return;
-      
-      const businessIds = await contract.getAllBusinessIds();
+
+      const sessionIds = await contract.getAllSessionIds();
       const bargainsList: BargainData[] = [];
-      
-      for (const businessId of businessIds) {
+
+      for (const sessionId of sessionIds) {
         try {
-          const businessData = await contract.getBusinessData(businessId);
+          const session = await contract.getSession(sessionId);
+          const roundInfo = await getRoundInfo(contract, sessionId);
+          const canJoin = address ? await contract.canJoin(sessionId, address) : false;
+          const isBuyer = !!address && normAddr(session.buyer) === normAddr(address);
+          const isSeller = !!address && normAddr(session.seller) === normAddr(address);
+          const myPriceHandle = isBuyer || isSeller
+            ? (await contract.getEncryptedPrices(sessionId))[isBuyer ? 0 : 1]
+            : undefined;
+          const canDecryptMyPrice = myPriceHandle
+            ? await canDecrypt(myPriceHandle, address!, await contract.getAddress()).catch(() => undefined)
+            : undefined;
           bargainsList.push({
-            id: businessId,
-            name: businessData.name,
-            encryptedPrice: businessId,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            description: businessData.description,
-            timestamp: Number(businessData.timestamp),
-            creator: businessData.creator,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
+            id: sessionId,
+            buyer: session.buyer,
+            seller: session.seller,
+            publicBuyerPrice: Number(session.publicBuyerPrice) || 0,
+            publicSellerPrice: Number(session.publicSellerPrice) || 0,
+            buyerRevealed: session.buyerRevealed,
+            sellerRevealed: session.sellerRevealed,
+            state: Number(session.state) as SessionState,
+            settlementPolicy: Number(session.settlementPolicy) as SettlementPolicy,
+            bidWeightPercent: Number(session.bidWeightPercent),
+            settlementPrice: Number(session.settlementPrice) || 0,
+            privateMode: session.privateMode,
+            timestamp: Number(session.timestamp),
+            deadline: Number(session.deadline),
+            ...roundInfo,
+            inviteOnly: session.inviteOnly,
+            canJoin,
+            myPriceHandle,
+            canDecryptMyPrice
           });
         } catch (e) {
-          console.error('Error loading business data:', e);
+          console.error('Error loading session:', e);
         }
       }
-      
-      setBargains(bargainsList);
+
+      setBargains(bargainsList.sort((a, b) => b.timestamp - a.timestamp));
+      setSelectedBargain(prev => prev ? bargainsList.find(b => b.id === prev.id) ?? prev : prev);
+
+      // Prices cached from earlier decryptions stay shown only while the ACL still allows them
+      revalidateDecryptedValues().catch(e => console.warn('Could not revalidate decrypted prices:', e));
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    } finally { 
-      setIsRefreshing(false); 
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!inviteSessionId || loading || isRefreshing || handledInvite.current === inviteSessionId) return;
+    if (!isConnected || !isInitialized) return;
+    handledInvite.current = inviteSessionId;
+
+    const invited = bargains.find(b => b.id.toLowerCase() === inviteSessionId);
+    if (invited?.canJoin) {
+      setJoiningBargain(invited);
+      return;
     }
+
+    const message = !invited
+      ? "Invite link points to an unknown session"
+      : invited.state !== SessionState.Open
+        ? `This session can no longer be joined: ${SESSION_STATE_LABELS[invited.state].toLowerCase()}`
+        : "This invite is for a different wallet";
+    setTransactionStatus({ visible: true, status: "error", message });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    navigate('/', { replace: true });
+  }, [inviteSessionId, loading, isRefreshing, isConnected, isInitialized, bargains]);
+
+  const closeJoin = () => {
+    setJoiningBargain(null);
+    if (inviteSessionId) navigate('/', { replace: true });
   };
 
   const createBargain = async () => {
-    if (!isConnected || !address) { 
+    if (!isConnected || !address) {
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return; 
+      return;
     }
-    
+
     setCreatingBargain(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Creating bargain with FHE encryption..." });
-    
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting your bid with FHE..." });
+
     try {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const priceValue = parseInt(newBargainData.price) || 0;
-      const businessId = `bargain-${Date.now()}`;
-      
-      const encryptedResult = await encrypt(contractAddress, address, priceValue);
-      
-      const tx = await contract.createBusinessData(
-        businessId,
-        newBargainData.name,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        0,
-        0,
-        newBargainData.description
-      );
-      
+
+      const bidValue = parseInt(newBargainData.price) || 0;
+
+      const encryptedBid = await encrypt(contractAddress, address, bidValue);
+
       setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
-      
-      setUserHistory(prev => [...prev, `Created bargain: ${newBargainData.name}`]);
-      setTransactionStatus({ visible: true, status: "success", message: "Bargain created successfully!" });
+      const invitedSellers = parseAddressList(newBargainData.invitedSellers);
+      const { sessionId } = await createBargainSession(contract, encryptedBid, {
+        policy: newBargainData.policy,
+        bidWeightPercent: parseInt(newBargainData.bidWeightPercent) || 0,
+        durationSeconds: newBargainData.durationHours * 60 * 60,
+        maxRounds: newBargainData.maxRounds,
+        invitedSellers
+      });
+
+      const linkCopied = sessionId ? await copyInviteLink(sessionId) : false;
+      setUserHistory(prev => [...prev, invitedSellers.length > 0
+        ? `Created invite-only session for ${invitedSellers.length} seller(s)`
+        : "Created bargaining session"]);
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: linkCopied ? "Session created! Invite link copied to clipboard" : "Session created successfully!"
+      });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-      
+
       await loadData();
       setShowCreateModal(false);
-      setNewBargainData({ name: "", price: "", description: "" });
+      setNewBargainData({ price: "", policy: SettlementPolicy.Midpoint, bidWeightPercent: "50", durationHours: 24, maxRounds: 3, invitedSellers: "" });
+    } catch (e: any) {
+      const code = getFhevmErrorCode(e);
+      const errorMessage = code === FhevmErrorCode.USER_REJECTED
+        ? "Transaction rejected by user"
+        : code === FhevmErrorCode.CANCELLED
+          ? "Encryption cancelled"
+          : "Submission failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setCreatingBargain(false);
+    }
+  };
+
+  const joinBargain = async () => {
+    if (!isConnected || !address || !joiningBargain) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setSubmittingJoin(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting your ask with FHE..." });
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      const askValue = parseInt(joinBargainData.price) || 0;
+      const encryptedAsk = await encrypt(contractAddress, address, askValue);
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
+      await joinBargainSession(contract, joiningBargain.id, encryptedAsk);
+
+      setUserHistory(prev => [...prev, `Joined session ${shortId(joiningBargain.id)}`]);
+      setTransactionStatus({ visible: true, status: "success", message: "Joined session successfully!" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+
+      await loadData();
+      closeJoin();
+      setJoinBargainData({ price: "" });
+    } catch (e: any) {
+      const errorMessage = getFhevmErrorCode(e) === FhevmErrorCode.USER_REJECTED
+        ? "Transaction rejected by user"
+        : "Join failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setSubmittingJoin(false);
+    }
+  };
+
+  const counterOffer = async () => {
+    if (!isConnected || !address || !counteringBargain) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setSubmittingCounter(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting your counter-offer with FHE..." });
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+
+      const offerValue = parseInt(counterOfferData.price) || 0;
+      const encryptedOffer = await encrypt(contractAddress, address, offerValue);
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
+      await submitCounterOffer(contract, counteringBargain.id, encryptedOffer);
+
+      setUserHistory(prev => [...prev, `Countered in round ${counteringBargain.round} of ${shortId(counteringBargain.id)}`]);
+      setTransactionStatus({ visible: true, status: "success", message: "Counter-offer submitted!" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+
+      await loadData();
+      setCounteringBargain(null);
+      setCounterOfferData({ price: "" });
+    } catch (e: any) {
+      const errorMessage = getFhevmErrorCode(e) === FhevmErrorCode.USER_REJECTED
+        ? "Transaction rejected by user"
+        : "Counter-offer failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally {
+      setSubmittingCounter(false);
+    }
+  };
+
+  const loadTimeline = async (sessionId: string): Promise<NegotiationRound[]> => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return [];
+      return await getSessionTimeline(contract, sessionId);
+    } catch (e) {
+      console.error('Failed to load session timeline:', e);
+      return [];
+    }
+  };
+
+  // Read back after a failed transaction, to tell a race with the other party from a real failure
+  const readSessionState = async (sessionId: string): Promise<SessionState | null> => {
+    try {
+      const contract = await getContractReadOnly();
+      return contract ? Number(await contract.getSessionState(sessionId)) as SessionState : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const readRevealedPrice = async (sessionId: string): Promise<number | null> => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract || !address) return null;
+      const session = await contract.getSession(sessionId);
+      if (normAddr(session.buyer) === normAddr(address) && session.buyerRevealed) return Number(session.publicBuyerPrice);
+      if (normAddr(session.seller) === normAddr(address) && session.sellerRevealed) return Number(session.publicSellerPrice);
+      return null;
+    } catch {
+      return null;
+    }
+  };
+
+  const checkMatch = async (sessionId: string): Promise<boolean | null> => {
+    if (!isConnected || !address) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    }
+
+    setTransactionStatus({ visible: true, status: "pending", message: "Decrypting encrypted match result..." });
+
+    try {
+      const contractWrite = await getContractWithSigner();
+      if (!contractWrite) return null;
+
+      const { matched, settlementPrice } = await resolveDealMatch(contractWrite, sessionId);
+
+      setUserHistory(prev => [...prev, `Checked match for ${shortId(sessionId)}: ${matched ? "deal" : "no deal"}`]);
+      await loadData();
+
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: matched ? `Deal matched! Settled at $${settlementPrice}` : "No deal this round: prices do not overlap."
+      });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+
+      return matched;
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
+      const state = await readSessionState(sessionId);
+      if (state === SessionState.Matched || state === SessionState.NoDeal || state === SessionState.Countering) {
+        await loadData();
+        setTransactionStatus({ visible: true, status: "success", message: "Match is already resolved on-chain" });
+        setTimeout(() => {
+          setTransactionStatus({ visible: false, status: "pending", message: "" });
+        }, 2000);
+        return null;
+      }
+
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Match check failed: " + (e.message || "Unknown error")
+      });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    }
+  };
+
+  const cancelBargain = async (sessionId: string) => {
+    if (!isConnected || !address) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+
+    setTransactionStatus({ visible: true, status: "pending", message: "Cancelling session..." });
+
+    try {
+      const contractWrite = await getContractWithSigner();
+      if (!contractWrite) return;
+
+      await cancelBargainSession(contractWrite, sessionId);
+
+      setUserHistory(prev => [...prev, `Cancelled session ${shortId(sessionId)}`]);
+      await loadData();
+
+      setTransactionStatus({ visible: true, status: "success", message: "Session cancelled" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+    } catch (e: any) {
+      const errorMessage = getFhevmErrorCode(e) === FhevmErrorCode.USER_REJECTED
+        ? "Transaction rejected by user"
+        : "Cancel failed: " + (e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const decryptMyPrice = async (sessionId: string): Promise<number | null> => {
+    if (!isConnected || !address) {
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    }
+
+    try {
+      const contractRead = await getContractReadOnly();
+      if (!contractRead) return null;
+
+      const session = await contractRead.getSession(sessionId);
+      const isBuyer = normAddr(session.buyer) === normAddr(address);
+      if (!isBuyer && normAddr(session.seller) !== normAddr(address)) {
+        throw new Error("Only the buyer or seller of this session has a submitted price");
+      }
+
+      const [encryptedBuyerPrice, encryptedSellerPrice] = await contractRead.getEncryptedPrices(sessionId);
+      const handle = isBuyer ? encryptedBuyerPrice : encryptedSellerPrice;
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Decrypting your price (sign the request if asked)..." });
+      const signer = await getSigner();
+      const price = toSafeNumber(await decryptValue(handle, contractAddress, signer));
+
+      setUserHistory(prev => [...prev, `Decrypted my ${isBuyer ? "bid" : "ask"} for ${shortId(sessionId)}`]);
+      setTransactionStatus({ visible: true, status: "success", message: "Your price was decrypted locally" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 2000);
+
+      return price;
+    } catch (e: any) {
+      const code = getFhevmErrorCode(e);
+      const errorMessage = code === FhevmErrorCode.USER_REJECTED
+        ? "Signature rejected by user"
+        : code === FhevmErrorCode.ACL_DENIED
+          ? "You are not allowed to decrypt this price"
+          : code === FhevmErrorCode.RELAYER_UNAVAILABLE
+            ? "Decryption service is temporarily unavailable, try again later"
+            : "Decryption failed: " + (e.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    } finally { 
-      setCreatingBargain(false); 
+      return null;
+    }
+  };
+
+  const forgetDecryptionKeys = async () => {
+    if (!address) return;
+    try {
+      await clearDecryptionAuthorizations(address);
+      await clearDecryptedValues();
+      setTransactionStatus({ visible: true, status: "success", message: "Decryption keys forgotten, the next decryption asks for a new signature" });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Could not clear decryption keys: " + (e.message || "Unknown error") });
     }
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
-    if (!isConnected || !address) { 
+  const revealPrice = async (sessionId: string): Promise<number | null> => {
+    if (!isConnected || !address) {
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
+      return null;
     }
-    
+
     try {
       const contractRead = await getContractReadOnly();
       if (!contractRead) return null;
-      
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Data already verified on-chain" 
+
+      const session = await contractRead.getSession(sessionId);
+      const role: BargainRole = normAddr(session.buyer) === normAddr(address)
+        ? "buyer"
+        : normAddr(session.seller) === normAddr(address) ? "seller" : "none";
+      if (role === "none") {
+        throw new Error("Only the buyer or seller of this session can reveal");
+      }
+
+      const alreadyRevealed = role === "buyer" ? session.buyerRevealed : session.sellerRevealed;
+      if (alreadyRevealed) {
+        setTransactionStatus({
+          visible: true,
+          status: "success",
+          message: "Price already revealed on-chain"
         });
         setTimeout(() => {
           setTransactionStatus({ visible: false, status: "pending", message: "" });
         }, 2000);
-        return storedValue;
+        return Number(role === "buyer" ? session.publicBuyerPrice : session.publicSellerPrice);
       }
-      
+
       const contractWrite = await getContractWithSigner();
       if (!contractWrite) return null;
-      
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
-      
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
-      
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
-      setUserHistory(prev => [...prev, `Decrypted bargain: ${businessId}`]);
+
+      setTransactionStatus({ visible: true, status: "pending", message: "Requesting reveal and verifying decryption on-chain..." });
+
+      const { price } = await revealSessionPrice(contractWrite, sessionId);
+
+      setUserHistory(prev => [...prev, `Revealed ${role} price for ${shortId(sessionId)}`]);
       await loadData();
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Price decrypted successfully!" });
+
+      setTransactionStatus({ visible: true, status: "success", message: "Price revealed successfully!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-      
-      return Number(clearValue);
-      
-    } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "Data is already verified on-chain" 
+
+      return Number(price);
+
+    } catch (e: any) {
+      const revealedPrice = await readRevealedPrice(sessionId);
+      if (revealedPrice !== null) {
+        setTransactionStatus({
+          visible: true,
+          status: "success",
+          message: "Price is already revealed on-chain"
         });
         setTimeout(() => {
           setTransactionStatus({ visible: false, status: "pending", message: "" });
         }, 2000);
         await loadData();
-        return null;
+        return revealedPrice;
       }
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "error", 
-        message: "Decryption failed: " + (e.message || "Unknown error") 
+
+      const code = getFhevmErrorCode(e);
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: code === FhevmErrorCode.USER_REJECTED
+          ? "Transaction rejected by user"
+          : code === FhevmErrorCode.PROOF_REJECTED
+            ? "The contract rejected the decryption proof, try revealing again"
+            : "Reveal failed: " + (e.message || "Unknown error")
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
+      return null;
     }
   };
 
@@ -267,7 +740,7 @@ const App: React.FC = () => {
     try {
       const contract = await getContractReadOnly();
       if (!contract) return;
-      
+
       const result = await contract.isAvailable();
       setUserHistory(prev => [...prev, "Checked contract availability"]);
       setTransactionStatus({ visible: true, status: "success", message: "Contract is available!" });
@@ -278,22 +751,12 @@ const App: React.FC = () => {
     }
   };
 
-  const analyzeBargain = (bargain: BargainData, decryptedPrice: number | null): BargainAnalysis => {
-    const price = bargain.isVerified ? (bargain.decryptedValue || 0) : (decryptedPrice || 100);
-    const timeFactor = Math.max(0.5, Math.min(1.5, 1 - (Date.now()/1000 - bargain.timestamp) / (60 * 60 * 24 * 7)));
-    
-    const priceMatch = Math.min(100, Math.round((1000 / (price + 1)) * 10 * timeFactor));
-    const negotiationScore = Math.round((bargain.publicValue1 * 8 + Math.log(price + 1) * 2) * timeFactor);
-    const dealProbability = Math.min(95, Math.round((price * 0.3 + bargain.publicValue1 * 7) * timeFactor));
-    const timeSensitivity = Math.max(10, Math.min(90, 100 - (Date.now()/1000 - bargain.timestamp) / (60 * 60)));
-    const marketPosition = Math.round((price * 0.6 + bargain.publicValue1 * 0.4) * 2 * timeFactor);
-
-    return { priceMatch, negotiationScore, dealProbability, timeSensitivity, marketPosition };
-  };
-
-  const filteredBargains = bargains.filter(bargain => 
-    bargain.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    bargain.description.toLowerCase().includes(searchTerm.toLowerCase())
+  const filteredBargains = bargains.filter(bargain =>
+    (showClosed || !isSessionDead(getState(bargain, now))) && (
+      bargain.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      bargain.buyer.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      bargain.seller.toLowerCase().includes(searchTerm.toLowerCase())
+    )
   );
 
   const paginatedBargains = filteredBargains.slice(
@@ -316,12 +779,21 @@ const App: React.FC = () => {
             </div>
           </div>
         </header>
-        
+
         <div className="connection-prompt">
           <div className="connection-content">
             <div className="connection-icon">💎</div>
-            <h2>Connect Wallet to Start Private Bargaining</h2>
-            <p>Securely negotiate prices with fully homomorphic encryption protecting your bids</p>
+            {inviteSessionId ? (
+              <>
+                <h2>You Were Invited to a Bargaining Session</h2>
+                <p>Connect the invited wallet to join session {shortId(inviteSessionId)} with an encrypted ask</p>
+              </>
+            ) : (
+              <>
+                <h2>Connect Wallet to Start Private Bargaining</h2>
+                <p>Securely negotiate prices with fully homomorphic encryption protecting your bids</p>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -350,25 +822,30 @@ const App: React.FC = () => {
         <div className="logo">
           <h1>FHE Bargaining Bot 💎</h1>
         </div>
-        
+
         <div className="header-actions">
           <button onClick={callIsAvailable} className="test-btn">Test Contract</button>
-          <button onClick={() => setShowCreateModal(true)} className="create-btn">+ Create Bargain</button>
+          {isConnected && (
+            <button onClick={forgetDecryptionKeys} className="test-btn" title="Drop the stored decryption signatures for this wallet">
+              Forget Decryption Keys
+            </button>
+          )}
+          <button onClick={() => setShowCreateModal(true)} className="create-btn">+ New Session</button>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
         </div>
       </header>
-      
+
       <div className="main-content">
         <div className="stats-panel">
           <div className="stat-card">
             <div className="stat-value">{bargains.length}</div>
-            <div className="stat-label">Total Bargains</div>
+            <div className="stat-label">Total Sessions</div>
           </div>
           <div className="stat-card">
-            <div className="stat-value">{bargains.filter(b => b.isVerified).length}</div>
-            <div className="stat-label">Verified Prices</div>
+            <div className="stat-value">{bargains.filter(b => b.state === SessionState.Matched).length}</div>
+            <div className="stat-label">Deals Matched</div>
           </div>
           <div className="stat-card">
             <div className="stat-value">{userHistory.length}</div>
@@ -379,11 +856,19 @@ const App: React.FC = () => {
         <div className="search-section">
           <input
             type="text"
-            placeholder="Search bargains..."
+            placeholder="Search by session id or address..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="search-input"
           />
+          <label className="toggle-closed">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={(e) => setShowClosed(e.target.checked)}
+            />
+            Show expired &amp; cancelled
+          </label>
           <button onClick={loadData} className="refresh-btn">
             {isRefreshing ? "🔄" : "Refresh"}
           </button>
@@ -392,18 +877,26 @@ const App: React.FC = () => {
         <div className="bargains-list">
           {paginatedBargains.length === 0 ? (
             <div className="no-bargains">
-              <p>No bargaining proposals found</p>
+              <p>No bargaining sessions found</p>
               <button onClick={() => setShowCreateModal(true)} className="create-btn">
-                Create First Bargain
+                Create First Session
               </button>
             </div>
           ) : (
-            paginatedBargains.map((bargain, index) => (
-              <BargainItem 
-                key={index}
+            paginatedBargains.map((bargain) => (
+              <BargainItem
+                key={bargain.id}
                 bargain={bargain}
+                account={address}
+                contractAddress={contractAddress}
+                now={now}
                 onSelect={setSelectedBargain}
-                onDecrypt={decryptData}
+                onJoin={setJoiningBargain}
+                onCounter={setCounteringBargain}
+                onCancel={cancelBargain}
+                onCheckMatch={checkMatch}
+                onDecrypt={decryptMyPrice}
+                onReveal={revealPrice}
               />
             ))
           )}
@@ -411,14 +904,14 @@ const App: React.FC = () => {
 
         {totalPages > 1 && (
           <div className="pagination">
-            <button 
+            <button
               onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
               disabled={currentPage === 1}
             >
               Previous
             </button>
             <span>Page {currentPage} of {totalPages}</span>
-            <button 
+            <button
               onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
               disabled={currentPage === totalPages}
             >
@@ -436,27 +929,61 @@ const App: React.FC = () => {
           </div>
         </div>
       </div>
-      
+
       {showCreateModal && (
-        <CreateBargainModal 
+        <CreateBargainModal
           onSubmit={createBargain}
           onClose={() => setShowCreateModal(false)}
           creating={creatingBargain}
           bargainData={newBargainData}
           setBargainData={setNewBargainData}
           isEncrypting={isEncrypting}
+          encryptionStage={encryptionStage}
+          onCancelEncryption={cancelEncryption}
+        />
+      )}
+
+      {joiningBargain && (
+        <JoinBargainModal
+          bargain={joiningBargain}
+          onSubmit={joinBargain}
+          onClose={closeJoin}
+          joining={submittingJoin}
+          bargainData={joinBargainData}
+          setBargainData={setJoinBargainData}
+          isEncrypting={isEncrypting}
         />
       )}
-      
+
+      {counteringBargain && (
+        <CounterOfferModal
+          bargain={counteringBargain}
+          role={getRole(counteringBargain, address)}
+          onSubmit={counterOffer}
+          onClose={() => setCounteringBargain(null)}
+          submitting={submittingCounter}
+          offerData={counterOfferData}
+          setOfferData={setCounterOfferData}
+          isEncrypting={isEncrypting}
+        />
+      )}
+
       {selectedBargain && (
-        <BargainDetailModal 
+        <BargainDetailModal
           bargain={selectedBargain}
+          account={address}
+          contractAddress={contractAddress}
+          now={now}
           onClose={() => setSelectedBargain(null)}
-          onDecrypt={decryptData}
-          analyzeBargain={analyzeBargain}
+          onCancel={cancelBargain}
+          onCounter={setCounteringBargain}
+          onLoadTimeline={loadTimeline}
+          onCheckMatch={checkMatch}
+          onDecrypt={decryptMyPrice}
+          onReveal={revealPrice}
         />
       )}
-      
+
       {transactionStatus.visible && (
         <div className={`transaction-toast ${transactionStatus.status}`}>
           {transactionStatus.message}
@@ -466,12 +993,53 @@ const App: React.FC = () => {
   );
 };
 
+/**
+ * The account's own decrypted bid or ask: instant when decrypted before, null until then
+ */
+const useMyPrice = (bargain: BargainData, contractAddress: string, account?: string) => {
+  const { value } = useDecryptedValue(bargain.myPriceHandle, contractAddress || null, account);
+  return value === undefined ? null : toSafeNumber(value);
+};
+
 const BargainItem: React.FC<{
   bargain: BargainData;
+  account?: string;
+  contractAddress: string;
+  now: number;
   onSelect: (bargain: BargainData) => void;
+  onJoin: (bargain: BargainData) => void;
+  onCounter: (bargain: BargainData) => void;
+  onCancel: (id: string) => Promise<void>;
+  onCheckMatch: (id: string) => Promise<boolean | null>;
   onDecrypt: (id: string) => Promise<number | null>;
-}> = ({ bargain, onSelect, onDecrypt }) => {
+  onReveal: (id: string) => Promise<number | null>;
+}> = ({ bargain, account, contractAddress, now, onSelect, onJoin, onCounter, onCancel, onCheckMatch, onDecrypt, onReveal }) => {
+  const [revealing, setRevealing] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
   const [decrypting, setDecrypting] = useState(false);
+  const myPrice = useMyPrice(bargain, contractAddress, account);
+  const role = getRole(bargain, account);
+  const state = getState(bargain, now);
+  const status = getStatus(bargain, now);
+  const countdown = getSessionCountdown(bargain.deadline, now);
+  const turn = describeTurn(bargain, now, role);
+  const revealed = role === "buyer" ? bargain.buyerRevealed : bargain.sellerRevealed;
+  const countered = role === "buyer" ? bargain.buyerCountered : bargain.sellerCountered;
+
+  const handleReveal = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRevealing(true);
+    await onReveal(bargain.id);
+    setRevealing(false);
+  };
+
+  const handleCheckMatch = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setChecking(true);
+    await onCheckMatch(bargain.id);
+    setChecking(false);
+  };
 
   const handleDecrypt = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -480,25 +1048,81 @@ const BargainItem: React.FC<{
     setDecrypting(false);
   };
 
+  const handleCancel = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCancelling(true);
+    await onCancel(bargain.id);
+    setCancelling(false);
+  };
+
+  const handleJoin = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onJoin(bargain);
+  };
+
+  const handleCounter = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCounter(bargain);
+  };
+
   return (
     <div className="bargain-item" onClick={() => onSelect(bargain)}>
       <div className="bargain-header">
-        <h3>{bargain.name}</h3>
-        <span className={`status ${bargain.isVerified ? 'verified' : 'encrypted'}`}>
-          {bargain.isVerified ? '✅ Verified' : '🔒 Encrypted'}
+        <h3>Session {shortId(bargain.id)}</h3>
+        <span className={`status ${status.className}`}>
+          {bargain.privateMode && '🕶️ '}{bargain.inviteOnly && '🔐 '}{status.label}
         </span>
       </div>
-      <p>{bargain.description}</p>
+      <p>
+        Buyer: {shortAddr(bargain.buyer)} · Seller: {hasSeller(bargain) ? shortAddr(bargain.seller) : 'open'}
+        {' · '}{describePolicy(bargain)}
+        {bargain.maxRounds > 1 && <> · Round {bargain.round}/{bargain.maxRounds}</>}
+        {isSessionPending(state) && turn && <> · {turn}</>}
+        {state === SessionState.Matched && <> · Settled at ${bargain.settlementPrice}</>}
+      </p>
       <div className="bargain-footer">
-        <span>By: {bargain.creator.substring(0, 6)}...{bargain.creator.substring(38)}</span>
-        <span>{new Date(bargain.timestamp * 1000).toLocaleDateString()}</span>
-        <button 
-          onClick={handleDecrypt}
-          disabled={decrypting || bargain.isVerified}
-          className={`decrypt-btn ${bargain.isVerified ? 'verified' : ''}`}
-        >
-          {decrypting ? 'Decrypting...' : bargain.isVerified ? 'Decrypted' : 'Decrypt Price'}
-        </button>
+        <span>
+          {role === "none" ? "Observer" : `You are the ${role}`}
+          {myPrice !== null && ` · Your ${role === "buyer" ? "bid" : "ask"}: $${myPrice}`}
+        </span>
+        <span>
+          {canSessionExpire(state)
+            ? `⏱ ${countdown.label} left`
+            : new Date(bargain.timestamp * 1000).toLocaleDateString()}
+        </span>
+        {role !== "none" && myPrice === null && (
+          <button
+            onClick={handleDecrypt}
+            disabled={decrypting || bargain.canDecryptMyPrice === false}
+            title={bargain.canDecryptMyPrice === false ? "The ACL does not allow this wallet to decrypt this price" : undefined}
+            className="decrypt-btn"
+          >
+            {decrypting ? 'Decrypting...' : 'Decrypt Price'}
+          </button>
+        )}
+        {state === SessionState.Open && role === "none" && bargain.canJoin ? (
+          <button onClick={handleJoin} className="decrypt-btn">Join as Seller</button>
+        ) : state === SessionState.Open && role === "buyer" ? (
+          <button onClick={handleCancel} disabled={cancelling} className="decrypt-btn">
+            {cancelling ? 'Cancelling...' : 'Cancel Session'}
+          </button>
+        ) : role !== "none" && state === SessionState.Countering ? (
+          <button onClick={handleCounter} disabled={countered} className="decrypt-btn">
+            {countered ? 'Counter-offer Sent' : 'Counter-offer'}
+          </button>
+        ) : role !== "none" && (state === SessionState.Joined || state === SessionState.Revealing) ? (
+          <button onClick={handleCheckMatch} disabled={checking} className="decrypt-btn">
+            {checking ? 'Checking...' : 'Check Match'}
+          </button>
+        ) : role !== "none" && state === SessionState.Matched && !bargain.privateMode ? (
+          <button
+            onClick={handleReveal}
+            disabled={revealing || revealed}
+            className={`decrypt-btn ${revealed ? 'verified' : ''}`}
+          >
+            {revealing ? 'Revealing...' : revealed ? 'Revealed' : 'Reveal My Price'}
+          </button>
+        ) : null}
       </div>
     </div>
   );
@@ -511,14 +1135,22 @@ const CreateBargainModal: React.FC<{
   bargainData: any;
   setBargainData: (data: any) => void;
   isEncrypting: boolean;
-}> = ({ onSubmit, onClose, creating, bargainData, setBargainData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  encryptionStage: EncryptionStage | null;
+  onCancelEncryption: () => void;
+}> = ({ onSubmit, onClose, creating, bargainData, setBargainData, isEncrypting, encryptionStage, onCancelEncryption }) => {
+  const invalidInvites = parseAddressList(bargainData.invitedSellers).filter(a => !ethers.isAddress(a));
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
-    if (name === 'price') {
+    if (name === 'invitedSellers') {
+      setBargainData({ ...bargainData, invitedSellers: value });
+    } else if (name === 'policy') {
+      setBargainData({ ...bargainData, policy: Number(value) as SettlementPolicy });
+    } else if (name === 'durationHours' || name === 'maxRounds') {
+      setBargainData({ ...bargainData, [name]: Number(value) });
+    } else {
       const intValue = value.replace(/[^\d]/g, '');
       setBargainData({ ...bargainData, [name]: intValue });
-    } else {
-      setBargainData({ ...bargainData, [name]: value });
     }
   };
 
@@ -526,60 +1158,229 @@ const CreateBargainModal: React.FC<{
     <div className="modal-overlay">
       <div className="modal">
         <div className="modal-header">
-          <h2>Create New Bargain</h2>
+          <h2>New Bargaining Session</h2>
           <button onClick={onClose} className="close-btn">×</button>
         </div>
-        
+
         <div className="modal-body">
           <div className="fhe-notice">
-            <strong>FHE Protected Pricing</strong>
-            <p>Your price will be encrypted using fully homomorphic encryption</p>
+            <strong>FHE Protected Bid</strong>
+            <p>As the buyer, your maximum price is encrypted before it leaves your browser</p>
           </div>
-          
+
           <div className="form-group">
-            <label>Item Name *</label>
-            <input 
-              type="text"
-              name="name"
-              value={bargainData.name}
+            <label>Your Maximum Bid (Integer only) *</label>
+            <input
+              type="number"
+              name="price"
+              value={bargainData.price}
               onChange={handleChange}
-              placeholder="Enter item name..."
+              placeholder="Enter your bid..."
+              min="0"
             />
+            <div className="input-hint">FHE Encrypted Integer</div>
+          </div>
+
+          <div className="form-group">
+            <label>Settlement Policy</label>
+            <select name="policy" value={bargainData.policy} onChange={handleChange}>
+              {Object.entries(SETTLEMENT_POLICY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <div className="input-hint">The deal price is computed under FHE; only the result is decrypted</div>
+          </div>
+
+          {bargainData.policy === SettlementPolicy.Weighted && (
+            <div className="form-group">
+              <label>Bid Weight (%)</label>
+              <input
+                type="number"
+                name="bidWeightPercent"
+                value={bargainData.bidWeightPercent}
+                onChange={handleChange}
+                min="0"
+                max="100"
+              />
+              <div className="input-hint">Share of the settlement price taken from your bid</div>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Negotiation Rounds</label>
+            <select name="maxRounds" value={bargainData.maxRounds} onChange={handleChange}>
+              {ROUND_OPTIONS.map(rounds => (
+                <option key={rounds} value={rounds}>{rounds === 1 ? 'Single round' : `Up to ${rounds} rounds`}</option>
+              ))}
+            </select>
+            <div className="input-hint">After a no-match both sides may send a new encrypted offer</div>
+          </div>
+
+          <div className="form-group">
+            <label>Session Deadline</label>
+            <select name="durationHours" value={bargainData.durationHours} onChange={handleChange}>
+              {DURATION_OPTIONS.map(({ hours, label }) => (
+                <option key={hours} value={hours}>{label}</option>
+              ))}
+            </select>
+            <div className="input-hint">The session expires if no seller joins and the match is not checked in time</div>
+          </div>
+
+          <div className="form-group">
+            <label>Invited Sellers (optional)</label>
+            <textarea
+              name="invitedSellers"
+              value={bargainData.invitedSellers}
+              onChange={handleChange}
+              placeholder="0x... one address per line"
+              rows={3}
+            />
+            <div className="input-hint">
+              {invalidInvites.length > 0
+                ? `Invalid address: ${invalidInvites[0]}`
+                : 'Only these sellers can join. Leave empty to let anyone join.'}
+            </div>
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={isEncrypting ? onCancelEncryption : onClose} className="cancel-btn">
+            {isEncrypting ? "Stop Encrypting" : "Cancel"}
+          </button>
+          <button
+            onClick={onSubmit}
+            disabled={
+              creating || isEncrypting || !bargainData.price ||
+              Number(bargainData.bidWeightPercent) > 100 || invalidInvites.length > 0
+            }
+            className="submit-btn"
+          >
+            {isEncrypting
+              ? ENCRYPTION_STAGE_LABELS[encryptionStage ?? "encrypting"]
+              : creating ? "Encrypting..." : "Create Session"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const JoinBargainModal: React.FC<{
+  bargain: BargainData;
+  onSubmit: () => void;
+  onClose: () => void;
+  joining: boolean;
+  bargainData: any;
+  setBargainData: (data: any) => void;
+  isEncrypting: boolean;
+}> = ({ bargain, onSubmit, onClose, joining, bargainData, setBargainData, isEncrypting }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const intValue = e.target.value.replace(/[^\d]/g, '');
+    setBargainData({ ...bargainData, price: intValue });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal">
+        <div className="modal-header">
+          <h2>Join Session {shortId(bargain.id)}</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <strong>FHE Protected Ask</strong>
+            <p>As the seller, your minimum price is encrypted before it leaves your browser</p>
           </div>
-          
+
+          {bargain.inviteOnly && (
+            <div className="fhe-notice">
+              <strong>🔐 Private Invitation</strong>
+              <p>The buyer invited your address; no one else can take this session</p>
+            </div>
+          )}
+
           <div className="form-group">
-            <label>Your Price (Integer only) *</label>
-            <input 
+            <label>Your Minimum Ask (Integer only) *</label>
+            <input
               type="number"
               name="price"
               value={bargainData.price}
               onChange={handleChange}
-              placeholder="Enter your price..."
+              placeholder="Enter your ask..."
               min="0"
             />
             <div className="input-hint">FHE Encrypted Integer</div>
           </div>
-          
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn">Cancel</button>
+          <button
+            onClick={onSubmit}
+            disabled={joining || isEncrypting || !bargainData.price}
+            className="submit-btn"
+          >
+            {joining || isEncrypting ? "Encrypting..." : "Join Session"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CounterOfferModal: React.FC<{
+  bargain: BargainData;
+  role: BargainRole;
+  onSubmit: () => void;
+  onClose: () => void;
+  submitting: boolean;
+  offerData: any;
+  setOfferData: (data: any) => void;
+  isEncrypting: boolean;
+}> = ({ bargain, role, onSubmit, onClose, submitting, offerData, setOfferData, isEncrypting }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const intValue = e.target.value.replace(/[^\d]/g, '');
+    setOfferData({ ...offerData, price: intValue });
+  };
+  const priceName = role === "buyer" ? "Bid" : "Ask";
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal">
+        <div className="modal-header">
+          <h2>Counter-offer · Round {bargain.round + 1}/{bargain.maxRounds}</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <strong>FHE Protected Counter-offer</strong>
+            <p>Your new {priceName.toLowerCase()} replaces the previous one; earlier rounds are never decrypted</p>
+          </div>
+
           <div className="form-group">
-            <label>Description</label>
-            <textarea
-              name="description"
-              value={bargainData.description}
+            <label>Your New {priceName} (Integer only) *</label>
+            <input
+              type="number"
+              name="price"
+              value={offerData.price}
               onChange={handleChange}
-              placeholder="Describe the item..."
-              rows={3}
+              placeholder={`Enter your ${priceName.toLowerCase()}...`}
+              min="0"
             />
+            <div className="input-hint">FHE Encrypted Integer</div>
           </div>
         </div>
-        
+
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn">Cancel</button>
-          <button 
+          <button
             onClick={onSubmit}
-            disabled={creating || isEncrypting || !bargainData.name || !bargainData.price}
+            disabled={submitting || isEncrypting || !offerData.price}
             className="submit-btn"
           >
-            {creating || isEncrypting ? "Encrypting..." : "Create Bargain"}
+            {submitting || isEncrypting ? "Encrypting..." : "Submit Counter-offer"}
           </button>
         </div>
       </div>
@@ -589,81 +1390,244 @@ const CreateBargainModal: React.FC<{
 
 const BargainDetailModal: React.FC<{
   bargain: BargainData;
+  account?: string;
+  contractAddress: string;
+  now: number;
   onClose: () => void;
+  onCancel: (id: string) => Promise<void>;
+  onCounter: (bargain: BargainData) => void;
+  onLoadTimeline: (id: string) => Promise<NegotiationRound[]>;
+  onCheckMatch: (id: string) => Promise<boolean | null>;
   onDecrypt: (id: string) => Promise<number | null>;
-  analyzeBargain: (bargain: BargainData, decryptedPrice: number | null) => BargainAnalysis;
-}> = ({ bargain, onClose, onDecrypt, analyzeBargain }) => {
-  const [decryptedPrice, setDecryptedPrice] = useState<number | null>(null);
+  onReveal: (id: string) => Promise<number | null>;
+}> = ({ bargain, account, contractAddress, now, onClose, onCancel, onCounter, onLoadTimeline, onCheckMatch, onDecrypt, onReveal }) => {
+  const decryptedPrice = useMyPrice(bargain, contractAddress, account);
   const [decrypting, setDecrypting] = useState(false);
+  const [revealing, setRevealing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [matchResult, setMatchResult] = useState<boolean | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [timeline, setTimeline] = useState<NegotiationRound[]>([]);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const role = getRole(bargain, account);
+  const state = getState(bargain, now);
+  const status = getStatus(bargain, now);
+  const countdown = getSessionCountdown(bargain.deadline, now);
+  const turn = describeTurn(bargain, now, role);
+  const countered = role === "buyer" ? bargain.buyerCountered : bargain.sellerCountered;
+
+  useEffect(() => {
+    let active = true;
+    onLoadTimeline(bargain.id).then(rounds => { if (active) setTimeline(rounds); });
+    return () => { active = false; };
+  }, [bargain.id, bargain.round, bargain.state, bargain.buyerCountered, bargain.sellerCountered]);
+
+  useEffect(() => {
+    setMatchResult(null);
+  }, [bargain.round]);
+  const revealed = role === "buyer" ? bargain.buyerRevealed : bargain.sellerRevealed;
 
   const handleDecrypt = async () => {
     setDecrypting(true);
-    const price = await onDecrypt(bargain.id);
-    setDecryptedPrice(price);
+    await onDecrypt(bargain.id);
     setDecrypting(false);
   };
 
-  const analysis = analyzeBargain(bargain, decryptedPrice);
+  const handleReveal = async () => {
+    setRevealing(true);
+    await onReveal(bargain.id);
+    setRevealing(false);
+  };
+
+  const handleCheckMatch = async () => {
+    setChecking(true);
+    const matched = await onCheckMatch(bargain.id);
+    setMatchResult(matched);
+    setChecking(false);
+  };
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    await onCancel(bargain.id);
+    setCancelling(false);
+  };
+
+  const handleCopyInvite = async () => {
+    setLinkCopied(await copyInviteLink(bargain.id));
+  };
 
   return (
     <div className="modal-overlay">
       <div className="modal detail-modal">
         <div className="modal-header">
-          <h2>{bargain.name}</h2>
+          <h2>Session {shortId(bargain.id)}</h2>
           <button onClick={onClose} className="close-btn">×</button>
         </div>
-        
+
         <div className="modal-body">
           <div className="bargain-info">
-            <p>{bargain.description}</p>
+            <span className={`status ${status.className}`}>{status.label}</span>
             <div className="info-grid">
-              <div>Creator: {bargain.creator.substring(0, 6)}...{bargain.creator.substring(38)}</div>
+              <div>Buyer: {shortAddr(bargain.buyer)}</div>
+              <div>Seller: {hasSeller(bargain) ? shortAddr(bargain.seller) : 'waiting to be joined'}</div>
               <div>Created: {new Date(bargain.timestamp * 1000).toLocaleDateString()}</div>
+              <div>Settlement: {describePolicy(bargain)}</div>
+              <div>
+                Deadline: {new Date(bargain.deadline * 1000).toLocaleString()}
+                {canSessionExpire(state) && ` (${countdown.label} left)`}
+              </div>
+              <div>Access: {bargain.inviteOnly ? '🔐 Invited sellers only' : 'Open to any seller'}</div>
+              <div>Round: {bargain.round} of {bargain.maxRounds}{turn && isSessionPending(state) && ` · ${turn}`}</div>
             </div>
           </div>
 
-          <div className="price-section">
-            <h3>Encrypted Price</h3>
+          {bargain.privateMode ? (
+            <div className="fhe-notice">
+              <strong>🕶️ Private Session</strong>
+              <p>No cleartext bid or ask ever touches the chain; only the deal outcome is decrypted</p>
+            </div>
+          ) : (
+            <div className="price-section">
+              <h3>Revealed Prices</h3>
+              <div className="info-grid">
+                <div>Buyer bid: {bargain.buyerRevealed ? `$${bargain.publicBuyerPrice}` : '🔒 FHE Encrypted'}</div>
+                <div>Seller ask: {bargain.sellerRevealed ? `$${bargain.publicSellerPrice}` : '🔒 FHE Encrypted'}</div>
+              </div>
+            </div>
+          )}
+
+          {hasSeller(bargain) && (
+            <div className="price-section">
+              <h3>Negotiation Timeline</h3>
+              <div className="timeline">
+                {timeline.map(entry => (
+                  <div key={entry.round} className={`timeline-round ${entry.outcome}`}>
+                    <strong>Round {entry.round}</strong>
+                    <span>
+                      {entry.outcome === 'matched'
+                        ? `🤝 Deal at $${entry.settlementPrice}`
+                        : entry.outcome === 'no-deal' ? '❌ No overlap' : '🔒 Awaiting match check'}
+                    </span>
+                    {entry.outcome === 'no-deal' && entry.round < bargain.maxRounds && (
+                      <span className="input-hint">
+                        Counter-offers: {entry.counterOffers.length === 0
+                          ? 'none yet'
+                          : entry.counterOffers
+                              .map(offer => normAddr(offer.party) === normAddr(bargain.buyer) ? 'buyer' : 'seller')
+                              .join(', ')}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {state === SessionState.Countering && (
             <div className="price-display">
-              {bargain.isVerified ? (
-                <div className="decrypted-price">${bargain.decryptedValue}</div>
-              ) : decryptedPrice !== null ? (
-                <div className="decrypted-price">${decryptedPrice}</div>
-              ) : (
-                <div className="encrypted-price">🔒 FHE Encrypted</div>
+              <div className="encrypted-price">
+                Round {bargain.round} ended without overlap. {turn === "Your turn"
+                  ? "Send a new encrypted offer to start the next round."
+                  : `Waiting for ${turn === "Either party" ? "both parties" : turn?.replace("'s turn", "")} to counter.`}
+              </div>
+              {role !== "none" && (
+                <button
+                  onClick={() => onCounter(bargain)}
+                  disabled={countered}
+                  className={`decrypt-btn large ${countered ? 'verified' : ''}`}
+                >
+                  {countered ? '✅ Counter-offer Sent' : '🔁 Submit Counter-offer'}
+                </button>
               )}
-              <button 
-                onClick={handleDecrypt}
-                disabled={decrypting || bargain.isVerified}
-                className={`decrypt-btn large ${bargain.isVerified ? 'verified' : ''}`}
+            </div>
+          )}
+
+          {state === SessionState.Open && role === "buyer" && (
+            <div className="price-display">
+              <div className="encrypted-price">No seller has joined yet</div>
+              <div className="input-hint">{inviteLinkFor(bargain.id)}</div>
+              <button onClick={handleCopyInvite} className="decrypt-btn large">
+                {linkCopied ? '✅ Link Copied' : '🔗 Copy Invite Link'}
+              </button>
+              <button onClick={handleCancel} disabled={cancelling} className="decrypt-btn large">
+                {cancelling ? 'Cancelling...' : '🚫 Cancel Session'}
+              </button>
+            </div>
+          )}
+
+          {isSessionDead(state) && (
+            <div className="price-display">
+              <h3>{SESSION_STATE_LABELS[state]}</h3>
+              <div className="encrypted-price">
+                {state === SessionState.Cancelled
+                  ? 'The buyer withdrew this session before a seller joined.'
+                  : 'The deadline passed before the deal was resolved. Both prices stay encrypted.'}
+              </div>
+            </div>
+          )}
+
+          {(state === SessionState.Joined || state === SessionState.Revealing) && matchResult === null && (
+            <div className="price-display">
+              <div className="encrypted-price">🔒 Bid and ask are compared under FHE</div>
+              <button
+                onClick={handleCheckMatch}
+                disabled={checking || role === "none"}
+                className="decrypt-btn large"
               >
-                {decrypting ? 'Decrypting...' : bargain.isVerified ? '✅ Verified' : '🔓 Decrypt Price'}
+                {checking ? 'Checking...' : '🤝 Check Match'}
               </button>
             </div>
-          </div>
+          )}
 
-          {(bargain.isVerified || decryptedPrice !== null) && (
-            <div className="analysis-section">
-              <h3>Bargaining Analysis</h3>
-              <div className="analysis-chart">
-                {Object.entries(analysis).map(([key, value]) => (
-                  <div key={key} className="analysis-row">
-                    <span className="analysis-label">{key.replace(/([A-Z])/g, ' $1')}:</span>
-                    <div className="analysis-bar">
-                      <div 
-                        className="bar-fill"
-                        style={{ width: `${value}%` }}
-                      >
-                        <span>{value}%</span>
-                      </div>
-                    </div>
-                  </div>
-                ))}
+          {(state === SessionState.NoDeal || (matchResult === false && state !== SessionState.Countering)) && (
+            <div className="price-display">
+              <h3>No Deal</h3>
+              <div className="encrypted-price">Prices did not overlap. Both stay encrypted.</div>
+            </div>
+          )}
+
+          {state === SessionState.Matched && (
+            <div className="price-display">
+              <h3>Deal Matched</h3>
+              <div className="decrypted-price">${bargain.settlementPrice}</div>
+              <div className="input-hint">Settled by {describePolicy(bargain)}</div>
+            </div>
+          )}
+
+          {role !== "none" && (
+            <div className="price-section">
+              <h3>My Submitted {role === "buyer" ? "Bid" : "Ask"}</h3>
+              <div className="price-display">
+                {decryptedPrice !== null ? (
+                  <div className="decrypted-price">${decryptedPrice}</div>
+                ) : (
+                  <div className="encrypted-price">🔒 Only you can decrypt this price</div>
+                )}
+                <button
+                  onClick={handleDecrypt}
+                  disabled={decrypting || decryptedPrice !== null || bargain.canDecryptMyPrice === false}
+                  title={bargain.canDecryptMyPrice === false ? "The ACL does not allow this wallet to decrypt this price" : undefined}
+                  className={`decrypt-btn large ${decryptedPrice !== null ? 'verified' : ''}`}
+                >
+                  {decrypting ? 'Decrypting...' : decryptedPrice !== null ? '✅ Decrypted' : '🔓 Decrypt My Price'}
+                </button>
               </div>
             </div>
           )}
+
+          {role !== "none" && state === SessionState.Matched && !bargain.privateMode && (
+            <div className="price-display">
+              <button
+                onClick={handleReveal}
+                disabled={revealing || revealed}
+                className={`decrypt-btn large ${revealed ? 'verified' : ''}`}
+              >
+                {revealing ? 'Revealing...' : revealed ? '✅ Revealed' : '📢 Reveal My Price Publicly'}
+              </button>
+            </div>
+          )}
         </div>
-        
+
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">Close</button>
         </div>
@@ -673,5 +1637,3 @@ const BargainDetailModal: React.FC<{
 };
 
 export default App;
-
-
@@ -1,6 +1,6 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import abiJson from "../abi/BargainFHE.json";
 import configJson from "../config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
@@ -90,6 +90,15 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getSigner() {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
@@ -0,0 +1,714 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { BargainFHE, BargainFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  buyer: HardhatEthersSigner;
+  seller: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+};
+
+enum SettlementPolicy {
+  Midpoint = 0,
+  SellerAsk = 1,
+  BuyerBid = 2,
+  Weighted = 3,
+}
+
+enum SessionState {
+  Open = 0,
+  Joined = 1,
+  Revealing = 2,
+  Matched = 3,
+  NoDeal = 4,
+  Expired = 5,
+  Cancelled = 6,
+  Countering = 7,
+}
+
+const SESSION_DURATION = 60 * 60;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("BargainFHE")) as BargainFHE__factory;
+  const contract = (await factory.deploy()) as BargainFHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("BargainFHE", function () {
+  let signers: Signers;
+  let contract: BargainFHE;
+  let contractAddress: string;
+
+  async function encryptPrice(signer: HardhatEthersSigner, price: number) {
+    return fhevm.createEncryptedInput(contractAddress, signer.address).add32(price).encrypt();
+  }
+
+  async function sessionIdFrom(tx: Awaited<ReturnType<BargainFHE["createPrivateSession"]>>) {
+    const receipt = await tx.wait();
+    for (const log of receipt!.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "SessionCreated") {
+        return parsed.args.sessionId as string;
+      }
+    }
+    throw new Error("SessionCreated not emitted");
+  }
+
+  async function deadlineIn(seconds: number) {
+    return (await time.latest()) + seconds;
+  }
+
+  async function createPrivate(
+    bid: number,
+    policy = SettlementPolicy.Midpoint,
+    bidWeightPercent = 0,
+    maxRounds = 1,
+    allowedSellers: string[] = [],
+  ) {
+    const input = await encryptPrice(signers.buyer, bid);
+    const tx = await contract
+      .connect(signers.buyer)
+      .createPrivateSession(
+        input.handles[0],
+        input.inputProof,
+        policy,
+        bidWeightPercent,
+        await deadlineIn(SESSION_DURATION),
+        maxRounds,
+        allowedSellers,
+      );
+    return sessionIdFrom(tx);
+  }
+
+  async function createLegacy(bid: number, policy = SettlementPolicy.Midpoint) {
+    const input = await fhevm
+      .createEncryptedInput(contractAddress, signers.buyer.address)
+      .add32(bid)
+      .add32(0)
+      .encrypt();
+    const tx = await contract
+      .connect(signers.buyer)
+      .createSession(
+        input.handles[0],
+        input.handles[1],
+        input.inputProof,
+        input.inputProof,
+        0,
+        0,
+        policy,
+        0,
+        await deadlineIn(SESSION_DURATION),
+        1,
+        [],
+      );
+    return sessionIdFrom(tx);
+  }
+
+  async function joinPrivate(sessionId: string, ask: number) {
+    const input = await encryptPrice(signers.seller, ask);
+    return contract.connect(signers.seller).joinPrivateSession(sessionId, input.handles[0], input.inputProof);
+  }
+
+  async function joinLegacy(sessionId: string, ask: number) {
+    const input = await encryptPrice(signers.seller, ask);
+    return contract.connect(signers.seller).joinSession(sessionId, input.handles[0], input.inputProof, 0);
+  }
+
+  async function requestMatchReveal(sessionId: string) {
+    await (await contract.connect(signers.buyer).requestMatchReveal(sessionId)).wait();
+  }
+
+  async function decryptMatch(sessionId: string) {
+    await requestMatchReveal(sessionId);
+    const matchHandle = await contract.getEncryptedMatch(sessionId);
+    const settlementHandle = await contract.getEncryptedSettlementPrice(sessionId);
+    return fhevm.publicDecrypt([matchHandle, settlementHandle]);
+  }
+
+  async function resolve(sessionId: string) {
+    const result = await decryptMatch(sessionId);
+    return contract.resolveMatch(sessionId, result.abiEncodedClearValues, result.decryptionProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], buyer: ethSigners[1], seller: ethSigners[2], outsider: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // The encrypted flows below rely on the mock coprocessor
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  describe("session creation and join", function () {
+    it("creates a private session without a seller", async function () {
+      const sessionId = await createPrivate(120);
+
+      const session = await contract.getSession(sessionId);
+      expect(session.buyer).to.eq(signers.buyer.address);
+      expect(session.seller).to.eq(ethers.ZeroAddress);
+      expect(session.privateMode).to.eq(true);
+      expect(session.state).to.eq(SessionState.Open);
+      expect(session.deadline).to.eq(session.timestamp + BigInt(SESSION_DURATION) - 1n);
+      expect(session.publicBuyerPrice).to.eq(0);
+      expect(await contract.getAllSessionIds()).to.deep.eq([sessionId]);
+      expect(await contract.getEncryptedMatch(sessionId)).to.eq(ethers.ZeroHash);
+    });
+
+    it("creates a legacy session", async function () {
+      const sessionId = await createLegacy(120);
+
+      const session = await contract.getSession(sessionId);
+      expect(session.buyer).to.eq(signers.buyer.address);
+      expect(session.privateMode).to.eq(false);
+    });
+
+    it("rejects a bid weight above 100", async function () {
+      const input = await encryptPrice(signers.buyer, 120);
+      await expect(
+        contract
+          .connect(signers.buyer)
+          .createPrivateSession(
+            input.handles[0],
+            input.inputProof,
+            SettlementPolicy.Weighted,
+            101,
+            await deadlineIn(SESSION_DURATION),
+            1,
+            [],
+          ),
+      ).to.be.revertedWith("Invalid bid weight");
+    });
+
+    it("rejects a round limit of zero", async function () {
+      const input = await encryptPrice(signers.buyer, 120);
+      await expect(
+        contract
+          .connect(signers.buyer)
+          .createPrivateSession(
+            input.handles[0],
+            input.inputProof,
+            SettlementPolicy.Midpoint,
+            0,
+            await deadlineIn(SESSION_DURATION),
+            0,
+            [],
+          ),
+      ).to.be.revertedWith("Invalid round limit");
+    });
+
+    it("computes the encrypted match when the seller joins", async function () {
+      const sessionId = await createPrivate(120);
+
+      await expect(joinPrivate(sessionId, 100)).to.emit(contract, "MatchComputed");
+
+      const session = await contract.getSession(sessionId);
+      expect(session.seller).to.eq(signers.seller.address);
+      expect(session.state).to.eq(SessionState.Joined);
+      expect(await contract.getEncryptedMatch(sessionId)).to.not.eq(ethers.ZeroHash);
+    });
+
+    it("lets each party decrypt only their own price", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      const [encryptedBid, encryptedAsk] = await contract.getEncryptedPrices(sessionId);
+      const bid = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedBid, contractAddress, signers.buyer);
+      const ask = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedAsk, contractAddress, signers.seller);
+      expect(bid).to.eq(120);
+      expect(ask).to.eq(100);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, encryptedAsk, contractAddress, signers.buyer)).to.be
+        .rejected;
+    });
+
+    it("rejects a second join", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      await expect(joinPrivate(sessionId, 90)).to.be.revertedWith("Session already joined");
+    });
+
+    it("rejects a cleartext join on a private session", async function () {
+      const sessionId = await createPrivate(120);
+
+      await expect(joinLegacy(sessionId, 100)).to.be.revertedWith("Private session");
+    });
+
+    it("rejects joining an unknown session", async function () {
+      await expect(joinPrivate(ethers.ZeroHash, 100)).to.be.revertedWith("Session does not exist");
+    });
+  });
+
+  describe("match resolution", function () {
+    const policyCases = [
+      { policy: SettlementPolicy.Midpoint, weight: 0, expected: 110 },
+      { policy: SettlementPolicy.SellerAsk, weight: 0, expected: 100 },
+      { policy: SettlementPolicy.BuyerBid, weight: 0, expected: 120 },
+      { policy: SettlementPolicy.Weighted, weight: 25, expected: 105 },
+    ];
+
+    for (const { policy, weight, expected } of policyCases) {
+      it(`settles at ${expected} under policy ${SettlementPolicy[policy]}`, async function () {
+        const sessionId = await createPrivate(120, policy, weight);
+        await (await joinPrivate(sessionId, 100)).wait();
+
+        await expect(resolve(sessionId)).to.emit(contract, "DealMatched").withArgs(sessionId, 1, expected);
+
+        const session = await contract.getSession(sessionId);
+        expect(session.state).to.eq(SessionState.Matched);
+        expect(session.settlementPrice).to.eq(expected);
+      });
+    }
+
+    it("reports no deal when the bid is below the ask", async function () {
+      const sessionId = await createPrivate(90);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      const result = await decryptMatch(sessionId);
+      const settlementHandle = await contract.getEncryptedSettlementPrice(sessionId);
+      expect(result.clearValues[settlementHandle as `0x${string}`]).to.eq(0n);
+
+      await expect(contract.resolveMatch(sessionId, result.abiEncodedClearValues, result.decryptionProof))
+        .to.emit(contract, "NoDeal")
+        .withArgs(sessionId, 1);
+
+      const session = await contract.getSession(sessionId);
+      expect(session.state).to.eq(SessionState.NoDeal);
+      expect(session.settlementPrice).to.eq(0);
+    });
+
+    it("rejects resolving a session that has not been joined", async function () {
+      const sessionId = await createPrivate(120);
+
+      await expect(contract.resolveMatch(sessionId, "0x", "0x")).to.be.revertedWith("Session not joined");
+    });
+
+    it("rejects resolving before the match reveal is requested", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      await expect(contract.resolveMatch(sessionId, "0x", "0x")).to.be.revertedWith("Match reveal not requested");
+    });
+
+    it("gates match reveal requests by participant and state", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      await expect(contract.connect(signers.outsider).requestMatchReveal(sessionId)).to.be.revertedWith(
+        "Only participants can request reveal",
+      );
+      await expect(contract.connect(signers.seller).requestMatchReveal(sessionId))
+        .to.emit(contract, "SessionStateChanged")
+        .withArgs(sessionId, SessionState.Revealing);
+      await expect(contract.connect(signers.buyer).requestMatchReveal(sessionId)).to.be.revertedWith(
+        "Match not awaiting reveal",
+      );
+    });
+
+    it("rejects resolving twice", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+      const result = await decryptMatch(sessionId);
+      await (await contract.resolveMatch(sessionId, result.abiEncodedClearValues, result.decryptionProof)).wait();
+
+      await expect(
+        contract.resolveMatch(sessionId, result.abiEncodedClearValues, result.decryptionProof),
+      ).to.be.revertedWith("Match already resolved");
+    });
+
+    it("rejects clear values that do not match the decryption proof", async function () {
+      const sessionId = await createPrivate(90);
+      await (await joinPrivate(sessionId, 100)).wait();
+      const result = await decryptMatch(sessionId);
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["bool", "uint64"], [true, 95]);
+      await expect(contract.resolveMatch(sessionId, forged, result.decryptionProof)).to.be.reverted;
+
+      const session = await contract.getSession(sessionId);
+      expect(session.state).to.eq(SessionState.Revealing);
+    });
+
+    it("rejects a proof produced for another session", async function () {
+      const matchedId = await createPrivate(120);
+      await (await joinPrivate(matchedId, 100)).wait();
+      const otherId = await createPrivate(90);
+      await (await joinPrivate(otherId, 100)).wait();
+
+      const result = await decryptMatch(matchedId);
+      await requestMatchReveal(otherId);
+      await expect(contract.resolveMatch(otherId, result.abiEncodedClearValues, result.decryptionProof)).to.be.reverted;
+    });
+  });
+
+  describe("counter-offers", function () {
+    async function counter(signer: HardhatEthersSigner, sessionId: string, price: number) {
+      const input = await encryptPrice(signer, price);
+      return contract.connect(signer).submitCounterOffer(sessionId, input.handles[0], input.inputProof);
+    }
+
+    async function noDealRound(maxRounds: number) {
+      const sessionId = await createPrivate(90, SettlementPolicy.Midpoint, 0, maxRounds);
+      await (await joinPrivate(sessionId, 100)).wait();
+      await (await resolve(sessionId)).wait();
+      return sessionId;
+    }
+
+    it("opens a counter-offer round after a no-match with rounds left", async function () {
+      const sessionId = await noDealRound(3);
+
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Countering);
+      const roundInfo = await contract.getRoundInfo(sessionId);
+      expect(roundInfo.round).to.eq(1);
+      expect(roundInfo.maxRounds).to.eq(3);
+    });
+
+    it("re-evaluates the overlap once both sides have countered", async function () {
+      const sessionId = await noDealRound(3);
+
+      await expect(counter(signers.seller, sessionId, 96))
+        .to.emit(contract, "CounterOfferSubmitted")
+        .withArgs(sessionId, 1, signers.seller.address);
+      expect((await contract.getRoundInfo(sessionId)).sellerCountered).to.eq(true);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Countering);
+
+      await expect(counter(signers.buyer, sessionId, 100)).to.emit(contract, "MatchComputed");
+
+      const roundInfo = await contract.getRoundInfo(sessionId);
+      expect(roundInfo.round).to.eq(2);
+      expect(roundInfo.buyerCountered).to.eq(false);
+      expect(roundInfo.sellerCountered).to.eq(false);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Joined);
+
+      await expect(resolve(sessionId)).to.emit(contract, "DealMatched").withArgs(sessionId, 2, 98);
+
+      const [encryptedBid] = await contract.getEncryptedPrices(sessionId);
+      const bid = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedBid, contractAddress, signers.buyer);
+      expect(bid).to.eq(100);
+    });
+
+    it("ends with no deal once the last round fails", async function () {
+      const sessionId = await noDealRound(2);
+      await (await counter(signers.buyer, sessionId, 92)).wait();
+      await (await counter(signers.seller, sessionId, 99)).wait();
+
+      await expect(resolve(sessionId)).to.emit(contract, "NoDeal").withArgs(sessionId, 2);
+
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.NoDeal);
+      await expect(counter(signers.buyer, sessionId, 99)).to.be.revertedWith("Not accepting counter-offers");
+    });
+
+    it("rejects counter-offers outside a counter-offer round", async function () {
+      const singleRound = await noDealRound(1);
+      expect(await contract.getSessionState(singleRound)).to.eq(SessionState.NoDeal);
+      await expect(counter(signers.buyer, singleRound, 100)).to.be.revertedWith("Not accepting counter-offers");
+
+      const joined = await createPrivate(90, SettlementPolicy.Midpoint, 0, 3);
+      await (await joinPrivate(joined, 100)).wait();
+      await expect(counter(signers.buyer, joined, 100)).to.be.revertedWith("Not accepting counter-offers");
+    });
+
+    it("rejects outsiders and repeated counter-offers", async function () {
+      const sessionId = await noDealRound(3);
+
+      await expect(counter(signers.outsider, sessionId, 100)).to.be.revertedWith("Only participants can counter");
+
+      await (await counter(signers.buyer, sessionId, 95)).wait();
+      await expect(counter(signers.buyer, sessionId, 99)).to.be.revertedWith("Counter-offer already submitted");
+    });
+
+    it("expires a session waiting for counter-offers", async function () {
+      const sessionId = await noDealRound(3);
+
+      await time.increase(SESSION_DURATION);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Expired);
+      await expect(counter(signers.buyer, sessionId, 100)).to.be.revertedWith("Session expired");
+    });
+  });
+
+  describe("invitations", function () {
+    it("keeps sessions without invitations open to any seller", async function () {
+      const sessionId = await createPrivate(120);
+
+      expect((await contract.getSession(sessionId)).inviteOnly).to.eq(false);
+      expect(await contract.canJoin(sessionId, signers.outsider.address)).to.eq(true);
+    });
+
+    it("only lets invited sellers join", async function () {
+      const sessionId = await createPrivate(120, SettlementPolicy.Midpoint, 0, 1, [signers.seller.address]);
+
+      expect((await contract.getSession(sessionId)).inviteOnly).to.eq(true);
+      expect(await contract.invitedSellers(sessionId, signers.seller.address)).to.eq(true);
+      expect(await contract.canJoin(sessionId, signers.outsider.address)).to.eq(false);
+      expect(await contract.canJoin(sessionId, signers.seller.address)).to.eq(true);
+
+      const input = await encryptPrice(signers.outsider, 100);
+      await expect(
+        contract.connect(signers.outsider).joinPrivateSession(sessionId, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Not invited to this session");
+
+      await expect(joinPrivate(sessionId, 100)).to.emit(contract, "MatchComputed");
+      expect(await contract.canJoin(sessionId, signers.seller.address)).to.eq(false);
+    });
+
+    it("accepts an allowlist of several sellers", async function () {
+      const allowed = [signers.outsider.address, signers.seller.address];
+      const input = await encryptPrice(signers.buyer, 120);
+      const tx = await contract
+        .connect(signers.buyer)
+        .createPrivateSession(
+          input.handles[0],
+          input.inputProof,
+          SettlementPolicy.Midpoint,
+          0,
+          await deadlineIn(SESSION_DURATION),
+          1,
+          allowed,
+        );
+      await expect(tx)
+        .to.emit(contract, "SellerInvited")
+        .withArgs(await sessionIdFrom(tx), signers.outsider.address);
+
+      const sessionId = await sessionIdFrom(tx);
+      expect(await contract.canJoin(sessionId, signers.seller.address)).to.eq(true);
+      expect(await contract.canJoin(sessionId, signers.deployer.address)).to.eq(false);
+    });
+
+    it("rejects inviting the zero address or the buyer", async function () {
+      const input = await encryptPrice(signers.buyer, 120);
+      for (const invalid of [ethers.ZeroAddress, signers.buyer.address]) {
+        await expect(
+          contract
+            .connect(signers.buyer)
+            .createPrivateSession(
+              input.handles[0],
+              input.inputProof,
+              SettlementPolicy.Midpoint,
+              0,
+              await deadlineIn(SESSION_DURATION),
+              1,
+              [invalid],
+            ),
+        ).to.be.revertedWith("Invalid invited seller");
+      }
+    });
+  });
+
+  describe("deadlines and cancellation", function () {
+    it("rejects a deadline that is not in the future", async function () {
+      const input = await encryptPrice(signers.buyer, 120);
+      await expect(
+        contract
+          .connect(signers.buyer)
+          .createPrivateSession(
+            input.handles[0],
+            input.inputProof,
+            SettlementPolicy.Midpoint,
+            0,
+            await time.latest(),
+            1,
+            [],
+          ),
+      ).to.be.revertedWith("Deadline must be in the future");
+    });
+
+    it("lets the buyer cancel an open session", async function () {
+      const sessionId = await createPrivate(120);
+
+      await expect(contract.connect(signers.seller).cancelSession(sessionId)).to.be.revertedWith(
+        "Only buyer can cancel",
+      );
+      await expect(contract.connect(signers.buyer).cancelSession(sessionId))
+        .to.emit(contract, "SessionCancelled")
+        .withArgs(sessionId)
+        .and.to.emit(contract, "SessionStateChanged")
+        .withArgs(sessionId, SessionState.Cancelled);
+
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Cancelled);
+      await expect(joinPrivate(sessionId, 100)).to.be.revertedWith("Session not open");
+    });
+
+    it("rejects cancelling a joined session", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      await expect(contract.connect(signers.buyer).cancelSession(sessionId)).to.be.revertedWith(
+        "Only open sessions can be cancelled",
+      );
+    });
+
+    it("expires an open session past its deadline", async function () {
+      const sessionId = await createPrivate(120);
+
+      await expect(contract.expireSession(sessionId)).to.be.revertedWith("Session not expired");
+
+      await time.increase(SESSION_DURATION);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Expired);
+      await expect(joinPrivate(sessionId, 100)).to.be.revertedWith("Session expired");
+      await expect(contract.connect(signers.buyer).cancelSession(sessionId)).to.be.revertedWith(
+        "Only open sessions can be cancelled",
+      );
+
+      await expect(contract.connect(signers.outsider).expireSession(sessionId))
+        .to.emit(contract, "SessionExpired")
+        .withArgs(sessionId);
+      await expect(contract.expireSession(sessionId)).to.be.revertedWith("Session already expired");
+    });
+
+    it("expires a joined session whose match reveal was never requested", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+
+      await time.increase(SESSION_DURATION);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Expired);
+      await expect(contract.connect(signers.buyer).requestMatchReveal(sessionId)).to.be.revertedWith(
+        "Session expired",
+      );
+    });
+
+    it("still resolves a match whose reveal was requested before the deadline", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+      const result = await decryptMatch(sessionId);
+
+      await time.increase(SESSION_DURATION);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Revealing);
+      await expect(contract.expireSession(sessionId)).to.be.revertedWith("Session not expired");
+
+      await expect(contract.resolveMatch(sessionId, result.abiEncodedClearValues, result.decryptionProof))
+        .to.emit(contract, "DealMatched")
+        .withArgs(sessionId, 1, 110);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Matched);
+    });
+
+    it("keeps a resolved session after its deadline", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+      await (await resolve(sessionId)).wait();
+
+      await time.increase(SESSION_DURATION);
+      expect(await contract.getSessionState(sessionId)).to.eq(SessionState.Matched);
+      await expect(contract.expireSession(sessionId)).to.be.revertedWith("Session not expired");
+    });
+  });
+
+  describe("price reveal", function () {
+    async function matchedLegacySession() {
+      const sessionId = await createLegacy(120);
+      await (await joinLegacy(sessionId, 100)).wait();
+      await (await resolve(sessionId)).wait();
+      return sessionId;
+    }
+
+    async function decryptPrices(sessionId: string) {
+      const [encryptedBid, encryptedAsk] = await contract.getEncryptedPrices(sessionId);
+      return {
+        bid: await fhevm.publicDecrypt([encryptedBid]),
+        ask: await fhevm.publicDecrypt([encryptedAsk]),
+      };
+    }
+
+    it("lets each party reveal their own price after a request", async function () {
+      const sessionId = await matchedLegacySession();
+
+      await expect(contract.connect(signers.buyer).requestReveal(sessionId)).to.emit(contract, "RevealRequested");
+      await expect(contract.connect(signers.seller).requestReveal(sessionId)).to.emit(contract, "RevealRequested");
+
+      const { bid, ask } = await decryptPrices(sessionId);
+      await expect(
+        contract.connect(signers.buyer).revealBuyerPrice(sessionId, bid.abiEncodedClearValues, bid.decryptionProof),
+      )
+        .to.emit(contract, "PriceRevealed")
+        .withArgs(sessionId, signers.buyer.address, 120);
+      await expect(
+        contract.connect(signers.seller).revealSellerPrice(sessionId, ask.abiEncodedClearValues, ask.decryptionProof),
+      )
+        .to.emit(contract, "PriceRevealed")
+        .withArgs(sessionId, signers.seller.address, 100);
+
+      const session = await contract.getSession(sessionId);
+      expect(session.publicBuyerPrice).to.eq(120);
+      expect(session.publicSellerPrice).to.eq(100);
+      expect(session.buyerRevealed).to.eq(true);
+      expect(session.sellerRevealed).to.eq(true);
+    });
+
+    it("rejects reveal requests before a deal is matched", async function () {
+      const sessionId = await createLegacy(90);
+      await (await joinLegacy(sessionId, 100)).wait();
+      await (await resolve(sessionId)).wait();
+
+      await expect(contract.connect(signers.buyer).requestReveal(sessionId)).to.be.revertedWith("No matched deal");
+    });
+
+    it("rejects reveal requests on private sessions", async function () {
+      const sessionId = await createPrivate(120);
+      await (await joinPrivate(sessionId, 100)).wait();
+      await (await resolve(sessionId)).wait();
+
+      await expect(contract.connect(signers.buyer).requestReveal(sessionId)).to.be.revertedWith("Private session");
+    });
+
+    it("rejects reveal requests from outsiders and repeated requests", async function () {
+      const sessionId = await matchedLegacySession();
+
+      await expect(contract.connect(signers.outsider).requestReveal(sessionId)).to.be.revertedWith(
+        "Only participants can request reveal",
+      );
+
+      await (await contract.connect(signers.buyer).requestReveal(sessionId)).wait();
+      await expect(contract.connect(signers.buyer).requestReveal(sessionId)).to.be.revertedWith(
+        "Reveal already requested",
+      );
+    });
+
+    it("gates reveals by role, request and repetition", async function () {
+      const sessionId = await matchedLegacySession();
+      const [encryptedBid] = await contract.getEncryptedPrices(sessionId);
+
+      await expect(contract.connect(signers.buyer).revealBuyerPrice(sessionId, "0x", "0x")).to.be.revertedWith(
+        "Reveal not requested",
+      );
+
+      await (await contract.connect(signers.buyer).requestReveal(sessionId)).wait();
+      const bid = await fhevm.publicDecrypt([encryptedBid]);
+
+      await expect(
+        contract.connect(signers.seller).revealBuyerPrice(sessionId, bid.abiEncodedClearValues, bid.decryptionProof),
+      ).to.be.revertedWith("Only buyer can reveal");
+      await expect(
+        contract.connect(signers.buyer).revealSellerPrice(sessionId, bid.abiEncodedClearValues, bid.decryptionProof),
+      ).to.be.revertedWith("Only seller can reveal");
+
+      await (
+        await contract
+          .connect(signers.buyer)
+          .revealBuyerPrice(sessionId, bid.abiEncodedClearValues, bid.decryptionProof)
+      ).wait();
+      await expect(
+        contract.connect(signers.buyer).revealBuyerPrice(sessionId, bid.abiEncodedClearValues, bid.decryptionProof),
+      ).to.be.revertedWith("Buyer already revealed");
+    });
+
+    it("rejects a reveal with a forged price", async function () {
+      const sessionId = await matchedLegacySession();
+      const [encryptedBid] = await contract.getEncryptedPrices(sessionId);
+      await (await contract.connect(signers.buyer).requestReveal(sessionId)).wait();
+      const bid = await fhevm.publicDecrypt([encryptedBid]);
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [999]);
+      await expect(contract.connect(signers.buyer).revealBuyerPrice(sessionId, forged, bid.decryptionProof)).to.be
+        .reverted;
+    });
+  });
+});
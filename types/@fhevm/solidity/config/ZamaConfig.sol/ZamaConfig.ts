@@ -67,5 +67,3 @@ export interface ZamaConfig extends BaseContract {
 
   filters: {};
 }
-
-
@@ -106,5 +106,3 @@ export interface IKMSVerifier extends BaseContract {
 
   filters: {};
 }
-
-
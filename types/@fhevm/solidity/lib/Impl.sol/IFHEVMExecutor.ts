@@ -621,5 +621,3 @@ export interface IFHEVMExecutor extends BaseContract {
 
   filters: {};
 }
-
-
@@ -0,0 +1,1276 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface BargainFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "canJoin"
+      | "cancelSession"
+      | "confidentialProtocolId"
+      | "createPrivateSession"
+      | "createSession"
+      | "expireSession"
+      | "getAllSessionIds"
+      | "getEncryptedMatch"
+      | "getEncryptedPrices"
+      | "getEncryptedSettlementPrice"
+      | "getRoundInfo"
+      | "getSession"
+      | "getSessionState"
+      | "invitedSellers"
+      | "isAvailable"
+      | "joinPrivateSession"
+      | "joinSession"
+      | "requestMatchReveal"
+      | "requestReveal"
+      | "resolveMatch"
+      | "revealBuyerPrice"
+      | "revealSellerPrice"
+      | "sessionIds"
+      | "sessions"
+      | "submitCounterOffer"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CounterOfferSubmitted"
+      | "DealMatched"
+      | "MatchComputed"
+      | "NoDeal"
+      | "PriceRevealed"
+      | "PublicDecryptionVerified"
+      | "RevealRequested"
+      | "SellerInvited"
+      | "SessionCancelled"
+      | "SessionCreated"
+      | "SessionExpired"
+      | "SessionStateChanged"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "canJoin",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelSession",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createPrivateSession",
+    values: [
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSession",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      AddressLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireSession",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllSessionIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedMatch",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedPrices",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedSettlementPrice",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoundInfo",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSession",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSessionState",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "invitedSellers",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinPrivateSession",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinSession",
+    values: [BytesLike, BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestMatchReveal",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestReveal",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveMatch",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealBuyerPrice",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealSellerPrice",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sessionIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "sessions", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "submitCounterOffer",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "canJoin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createPrivateSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expireSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllSessionIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedPrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedSettlementPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoundInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getSession", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSessionState",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "invitedSellers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "joinPrivateSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "joinSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestMatchReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealBuyerPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealSellerPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "sessionIds", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "sessions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitCounterOffer",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CounterOfferSubmittedEvent {
+  export type InputTuple = [
+    sessionId: BytesLike,
+    round: BigNumberish,
+    party: AddressLike
+  ];
+  export type OutputTuple = [sessionId: string, round: bigint, party: string];
+  export interface OutputObject {
+    sessionId: string;
+    round: bigint;
+    party: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DealMatchedEvent {
+  export type InputTuple = [
+    sessionId: BytesLike,
+    round: BigNumberish,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [sessionId: string, round: bigint, price: bigint];
+  export interface OutputObject {
+    sessionId: string;
+    round: bigint;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchComputedEvent {
+  export type InputTuple = [
+    sessionId: BytesLike,
+    round: BigNumberish,
+    matchHandle: BytesLike,
+    settlementHandle: BytesLike
+  ];
+  export type OutputTuple = [
+    sessionId: string,
+    round: bigint,
+    matchHandle: string,
+    settlementHandle: string
+  ];
+  export interface OutputObject {
+    sessionId: string;
+    round: bigint;
+    matchHandle: string;
+    settlementHandle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NoDealEvent {
+  export type InputTuple = [sessionId: BytesLike, round: BigNumberish];
+  export type OutputTuple = [sessionId: string, round: bigint];
+  export interface OutputObject {
+    sessionId: string;
+    round: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceRevealedEvent {
+  export type InputTuple = [
+    sessionId: BytesLike,
+    revealer: AddressLike,
+    price: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionId: string,
+    revealer: string,
+    price: bigint
+  ];
+  export interface OutputObject {
+    sessionId: string;
+    revealer: string;
+    price: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RevealRequestedEvent {
+  export type InputTuple = [
+    sessionId: BytesLike,
+    revealer: AddressLike,
+    handle: BytesLike
+  ];
+  export type OutputTuple = [
+    sessionId: string,
+    revealer: string,
+    handle: string
+  ];
+  export interface OutputObject {
+    sessionId: string;
+    revealer: string;
+    handle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SellerInvitedEvent {
+  export type InputTuple = [sessionId: BytesLike, seller: AddressLike];
+  export type OutputTuple = [sessionId: string, seller: string];
+  export interface OutputObject {
+    sessionId: string;
+    seller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionCancelledEvent {
+  export type InputTuple = [sessionId: BytesLike];
+  export type OutputTuple = [sessionId: string];
+  export interface OutputObject {
+    sessionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionCreatedEvent {
+  export type InputTuple = [
+    sessionId: BytesLike,
+    buyer: AddressLike,
+    seller: AddressLike
+  ];
+  export type OutputTuple = [sessionId: string, buyer: string, seller: string];
+  export interface OutputObject {
+    sessionId: string;
+    buyer: string;
+    seller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionExpiredEvent {
+  export type InputTuple = [sessionId: BytesLike];
+  export type OutputTuple = [sessionId: string];
+  export interface OutputObject {
+    sessionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionStateChangedEvent {
+  export type InputTuple = [sessionId: BytesLike, state: BigNumberish];
+  export type OutputTuple = [sessionId: string, state: bigint];
+  export interface OutputObject {
+    sessionId: string;
+    state: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface BargainFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): BargainFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: BargainFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  canJoin: TypedContractMethod<
+    [sessionId: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  cancelSession: TypedContractMethod<
+    [sessionId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createPrivateSession: TypedContractMethod<
+    [
+      encryptedBuyerPrice: BytesLike,
+      buyerProof: BytesLike,
+      settlementPolicy: BigNumberish,
+      bidWeightPercent: BigNumberish,
+      deadline: BigNumberish,
+      maxRounds: BigNumberish,
+      allowedSellers: AddressLike[]
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  createSession: TypedContractMethod<
+    [
+      encryptedBuyerPrice: BytesLike,
+      encryptedSellerPrice: BytesLike,
+      buyerProof: BytesLike,
+      sellerProof: BytesLike,
+      publicBuyerPrice: BigNumberish,
+      publicSellerPrice: BigNumberish,
+      settlementPolicy: BigNumberish,
+      bidWeightPercent: BigNumberish,
+      deadline: BigNumberish,
+      maxRounds: BigNumberish,
+      allowedSellers: AddressLike[]
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  expireSession: TypedContractMethod<
+    [sessionId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getAllSessionIds: TypedContractMethod<[], [string[]], "view">;
+
+  getEncryptedMatch: TypedContractMethod<
+    [sessionId: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getEncryptedPrices: TypedContractMethod<
+    [sessionId: BytesLike],
+    [[string, string]],
+    "view"
+  >;
+
+  getEncryptedSettlementPrice: TypedContractMethod<
+    [sessionId: BytesLike],
+    [string],
+    "view"
+  >;
+
+  getRoundInfo: TypedContractMethod<
+    [sessionId: BytesLike],
+    [
+      [bigint, bigint, boolean, boolean] & {
+        round: bigint;
+        maxRounds: bigint;
+        buyerCountered: boolean;
+        sellerCountered: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSession: TypedContractMethod<
+    [sessionId: BytesLike],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        boolean
+      ] & {
+        buyer: string;
+        seller: string;
+        publicBuyerPrice: bigint;
+        publicSellerPrice: bigint;
+        buyerRevealed: boolean;
+        sellerRevealed: boolean;
+        state: bigint;
+        settlementPolicy: bigint;
+        bidWeightPercent: bigint;
+        settlementPrice: bigint;
+        privateMode: boolean;
+        timestamp: bigint;
+        deadline: bigint;
+        inviteOnly: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getSessionState: TypedContractMethod<
+    [sessionId: BytesLike],
+    [bigint],
+    "view"
+  >;
+
+  invitedSellers: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  joinPrivateSession: TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      encryptedSellerPrice: BytesLike,
+      sellerProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  joinSession: TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      encryptedSellerPrice: BytesLike,
+      sellerProof: BytesLike,
+      publicSellerPrice: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  requestMatchReveal: TypedContractMethod<
+    [sessionId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestReveal: TypedContractMethod<
+    [sessionId: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveMatch: TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  revealBuyerPrice: TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  revealSellerPrice: TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  sessionIds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  sessions: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean
+      ] & {
+        buyer: string;
+        seller: string;
+        encryptedBuyerPrice: string;
+        encryptedSellerPrice: string;
+        encryptedMatch: string;
+        encryptedSettlementPrice: string;
+        settlementPolicy: bigint;
+        bidWeightPercent: bigint;
+        settlementPrice: bigint;
+        publicBuyerPrice: bigint;
+        publicSellerPrice: bigint;
+        buyerRevealRequested: boolean;
+        sellerRevealRequested: boolean;
+        buyerRevealed: boolean;
+        sellerRevealed: boolean;
+        state: bigint;
+        privateMode: boolean;
+        timestamp: bigint;
+        deadline: bigint;
+        round: bigint;
+        maxRounds: bigint;
+        buyerCountered: boolean;
+        sellerCountered: boolean;
+        inviteOnly: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  submitCounterOffer: TypedContractMethod<
+    [sessionId: BytesLike, encryptedPrice: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "canJoin"
+  ): TypedContractMethod<
+    [sessionId: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelSession"
+  ): TypedContractMethod<[sessionId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createPrivateSession"
+  ): TypedContractMethod<
+    [
+      encryptedBuyerPrice: BytesLike,
+      buyerProof: BytesLike,
+      settlementPolicy: BigNumberish,
+      bidWeightPercent: BigNumberish,
+      deadline: BigNumberish,
+      maxRounds: BigNumberish,
+      allowedSellers: AddressLike[]
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSession"
+  ): TypedContractMethod<
+    [
+      encryptedBuyerPrice: BytesLike,
+      encryptedSellerPrice: BytesLike,
+      buyerProof: BytesLike,
+      sellerProof: BytesLike,
+      publicBuyerPrice: BigNumberish,
+      publicSellerPrice: BigNumberish,
+      settlementPolicy: BigNumberish,
+      bidWeightPercent: BigNumberish,
+      deadline: BigNumberish,
+      maxRounds: BigNumberish,
+      allowedSellers: AddressLike[]
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "expireSession"
+  ): TypedContractMethod<[sessionId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAllSessionIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedMatch"
+  ): TypedContractMethod<[sessionId: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedPrices"
+  ): TypedContractMethod<[sessionId: BytesLike], [[string, string]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedSettlementPrice"
+  ): TypedContractMethod<[sessionId: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRoundInfo"
+  ): TypedContractMethod<
+    [sessionId: BytesLike],
+    [
+      [bigint, bigint, boolean, boolean] & {
+        round: bigint;
+        maxRounds: bigint;
+        buyerCountered: boolean;
+        sellerCountered: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSession"
+  ): TypedContractMethod<
+    [sessionId: BytesLike],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        boolean
+      ] & {
+        buyer: string;
+        seller: string;
+        publicBuyerPrice: bigint;
+        publicSellerPrice: bigint;
+        buyerRevealed: boolean;
+        sellerRevealed: boolean;
+        state: bigint;
+        settlementPolicy: bigint;
+        bidWeightPercent: bigint;
+        settlementPrice: bigint;
+        privateMode: boolean;
+        timestamp: bigint;
+        deadline: bigint;
+        inviteOnly: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSessionState"
+  ): TypedContractMethod<[sessionId: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "invitedSellers"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "joinPrivateSession"
+  ): TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      encryptedSellerPrice: BytesLike,
+      sellerProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "joinSession"
+  ): TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      encryptedSellerPrice: BytesLike,
+      sellerProof: BytesLike,
+      publicSellerPrice: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestMatchReveal"
+  ): TypedContractMethod<[sessionId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestReveal"
+  ): TypedContractMethod<[sessionId: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resolveMatch"
+  ): TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealBuyerPrice"
+  ): TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealSellerPrice"
+  ): TypedContractMethod<
+    [
+      sessionId: BytesLike,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "sessionIds"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "sessions"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [
+        string,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        boolean
+      ] & {
+        buyer: string;
+        seller: string;
+        encryptedBuyerPrice: string;
+        encryptedSellerPrice: string;
+        encryptedMatch: string;
+        encryptedSettlementPrice: string;
+        settlementPolicy: bigint;
+        bidWeightPercent: bigint;
+        settlementPrice: bigint;
+        publicBuyerPrice: bigint;
+        publicSellerPrice: bigint;
+        buyerRevealRequested: boolean;
+        sellerRevealRequested: boolean;
+        buyerRevealed: boolean;
+        sellerRevealed: boolean;
+        state: bigint;
+        privateMode: boolean;
+        timestamp: bigint;
+        deadline: bigint;
+        round: bigint;
+        maxRounds: bigint;
+        buyerCountered: boolean;
+        sellerCountered: boolean;
+        inviteOnly: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitCounterOffer"
+  ): TypedContractMethod<
+    [sessionId: BytesLike, encryptedPrice: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "CounterOfferSubmitted"
+  ): TypedContractEvent<
+    CounterOfferSubmittedEvent.InputTuple,
+    CounterOfferSubmittedEvent.OutputTuple,
+    CounterOfferSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DealMatched"
+  ): TypedContractEvent<
+    DealMatchedEvent.InputTuple,
+    DealMatchedEvent.OutputTuple,
+    DealMatchedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchComputed"
+  ): TypedContractEvent<
+    MatchComputedEvent.InputTuple,
+    MatchComputedEvent.OutputTuple,
+    MatchComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NoDeal"
+  ): TypedContractEvent<
+    NoDealEvent.InputTuple,
+    NoDealEvent.OutputTuple,
+    NoDealEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceRevealed"
+  ): TypedContractEvent<
+    PriceRevealedEvent.InputTuple,
+    PriceRevealedEvent.OutputTuple,
+    PriceRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RevealRequested"
+  ): TypedContractEvent<
+    RevealRequestedEvent.InputTuple,
+    RevealRequestedEvent.OutputTuple,
+    RevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SellerInvited"
+  ): TypedContractEvent<
+    SellerInvitedEvent.InputTuple,
+    SellerInvitedEvent.OutputTuple,
+    SellerInvitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionCancelled"
+  ): TypedContractEvent<
+    SessionCancelledEvent.InputTuple,
+    SessionCancelledEvent.OutputTuple,
+    SessionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionCreated"
+  ): TypedContractEvent<
+    SessionCreatedEvent.InputTuple,
+    SessionCreatedEvent.OutputTuple,
+    SessionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionExpired"
+  ): TypedContractEvent<
+    SessionExpiredEvent.InputTuple,
+    SessionExpiredEvent.OutputTuple,
+    SessionExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionStateChanged"
+  ): TypedContractEvent<
+    SessionStateChangedEvent.InputTuple,
+    SessionStateChangedEvent.OutputTuple,
+    SessionStateChangedEvent.OutputObject
+  >;
+
+  filters: {
+    "CounterOfferSubmitted(bytes32,uint8,address)": TypedContractEvent<
+      CounterOfferSubmittedEvent.InputTuple,
+      CounterOfferSubmittedEvent.OutputTuple,
+      CounterOfferSubmittedEvent.OutputObject
+    >;
+    CounterOfferSubmitted: TypedContractEvent<
+      CounterOfferSubmittedEvent.InputTuple,
+      CounterOfferSubmittedEvent.OutputTuple,
+      CounterOfferSubmittedEvent.OutputObject
+    >;
+
+    "DealMatched(bytes32,uint8,uint256)": TypedContractEvent<
+      DealMatchedEvent.InputTuple,
+      DealMatchedEvent.OutputTuple,
+      DealMatchedEvent.OutputObject
+    >;
+    DealMatched: TypedContractEvent<
+      DealMatchedEvent.InputTuple,
+      DealMatchedEvent.OutputTuple,
+      DealMatchedEvent.OutputObject
+    >;
+
+    "MatchComputed(bytes32,uint8,bytes32,bytes32)": TypedContractEvent<
+      MatchComputedEvent.InputTuple,
+      MatchComputedEvent.OutputTuple,
+      MatchComputedEvent.OutputObject
+    >;
+    MatchComputed: TypedContractEvent<
+      MatchComputedEvent.InputTuple,
+      MatchComputedEvent.OutputTuple,
+      MatchComputedEvent.OutputObject
+    >;
+
+    "NoDeal(bytes32,uint8)": TypedContractEvent<
+      NoDealEvent.InputTuple,
+      NoDealEvent.OutputTuple,
+      NoDealEvent.OutputObject
+    >;
+    NoDeal: TypedContractEvent<
+      NoDealEvent.InputTuple,
+      NoDealEvent.OutputTuple,
+      NoDealEvent.OutputObject
+    >;
+
+    "PriceRevealed(bytes32,address,uint256)": TypedContractEvent<
+      PriceRevealedEvent.InputTuple,
+      PriceRevealedEvent.OutputTuple,
+      PriceRevealedEvent.OutputObject
+    >;
+    PriceRevealed: TypedContractEvent<
+      PriceRevealedEvent.InputTuple,
+      PriceRevealedEvent.OutputTuple,
+      PriceRevealedEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "RevealRequested(bytes32,address,bytes32)": TypedContractEvent<
+      RevealRequestedEvent.InputTuple,
+      RevealRequestedEvent.OutputTuple,
+      RevealRequestedEvent.OutputObject
+    >;
+    RevealRequested: TypedContractEvent<
+      RevealRequestedEvent.InputTuple,
+      RevealRequestedEvent.OutputTuple,
+      RevealRequestedEvent.OutputObject
+    >;
+
+    "SellerInvited(bytes32,address)": TypedContractEvent<
+      SellerInvitedEvent.InputTuple,
+      SellerInvitedEvent.OutputTuple,
+      SellerInvitedEvent.OutputObject
+    >;
+    SellerInvited: TypedContractEvent<
+      SellerInvitedEvent.InputTuple,
+      SellerInvitedEvent.OutputTuple,
+      SellerInvitedEvent.OutputObject
+    >;
+
+    "SessionCancelled(bytes32)": TypedContractEvent<
+      SessionCancelledEvent.InputTuple,
+      SessionCancelledEvent.OutputTuple,
+      SessionCancelledEvent.OutputObject
+    >;
+    SessionCancelled: TypedContractEvent<
+      SessionCancelledEvent.InputTuple,
+      SessionCancelledEvent.OutputTuple,
+      SessionCancelledEvent.OutputObject
+    >;
+
+    "SessionCreated(bytes32,address,address)": TypedContractEvent<
+      SessionCreatedEvent.InputTuple,
+      SessionCreatedEvent.OutputTuple,
+      SessionCreatedEvent.OutputObject
+    >;
+    SessionCreated: TypedContractEvent<
+      SessionCreatedEvent.InputTuple,
+      SessionCreatedEvent.OutputTuple,
+      SessionCreatedEvent.OutputObject
+    >;
+
+    "SessionExpired(bytes32)": TypedContractEvent<
+      SessionExpiredEvent.InputTuple,
+      SessionExpiredEvent.OutputTuple,
+      SessionExpiredEvent.OutputObject
+    >;
+    SessionExpired: TypedContractEvent<
+      SessionExpiredEvent.InputTuple,
+      SessionExpiredEvent.OutputTuple,
+      SessionExpiredEvent.OutputObject
+    >;
+
+    "SessionStateChanged(bytes32,uint8)": TypedContractEvent<
+      SessionStateChangedEvent.InputTuple,
+      SessionStateChangedEvent.OutputTuple,
+      SessionStateChangedEvent.OutputObject
+    >;
+    SessionStateChanged: TypedContractEvent<
+      SessionStateChangedEvent.InputTuple,
+      SessionStateChangedEvent.OutputTuple,
+      SessionStateChangedEvent.OutputObject
+    >;
+  };
+}
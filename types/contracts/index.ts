@@ -1,6 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalFHEAdapter } from "./UniversalFHEAdapter";
-
-
+import type * as bargainFheSol from "./Bargain_FHE.sol";
+export type { bargainFheSol };
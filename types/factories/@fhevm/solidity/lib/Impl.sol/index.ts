@@ -4,5 +4,3 @@
 export { IACL__factory } from "./IACL__factory";
 export { IFHEVMExecutor__factory } from "./IFHEVMExecutor__factory";
 export { IInputVerifier__factory } from "./IInputVerifier__factory";
-
-
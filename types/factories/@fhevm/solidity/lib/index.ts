@@ -3,5 +3,3 @@
 /* eslint-disable */
 export * as fheSol from "./FHE.sol";
 export * as implSol from "./Impl.sol";
-
-
@@ -0,0 +1,1089 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  BargainFHE,
+  BargainFHEInterface,
+} from "../../../contracts/Bargain_FHE.sol/BargainFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "round",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "party",
+        type: "address",
+      },
+    ],
+    name: "CounterOfferSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "round",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "DealMatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "round",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "matchHandle",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "settlementHandle",
+        type: "bytes32",
+      },
+    ],
+    name: "MatchComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "round",
+        type: "uint8",
+      },
+    ],
+    name: "NoDeal",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "revealer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+    ],
+    name: "PriceRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "revealer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    name: "RevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+    ],
+    name: "SellerInvited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "SessionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+    ],
+    name: "SessionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "SessionExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "enum BargainFHE.SessionState",
+        name: "state",
+        type: "uint8",
+      },
+    ],
+    name: "SessionStateChanged",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "canJoin",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "cancelSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedBuyerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "buyerProof",
+        type: "bytes",
+      },
+      {
+        internalType: "enum BargainFHE.SettlementPolicy",
+        name: "settlementPolicy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "bidWeightPercent",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "address[]",
+        name: "allowedSellers",
+        type: "address[]",
+      },
+    ],
+    name: "createPrivateSession",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedBuyerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedSellerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "buyerProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "sellerProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "publicBuyerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicSellerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "enum BargainFHE.SettlementPolicy",
+        name: "settlementPolicy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "bidWeightPercent",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "address[]",
+        name: "allowedSellers",
+        type: "address[]",
+      },
+    ],
+    name: "createSession",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "expireSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllSessionIds",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "getEncryptedMatch",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "getEncryptedPrices",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "getEncryptedSettlementPrice",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoundInfo",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "round",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "buyerCountered",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "sellerCountered",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "getSession",
+    outputs: [
+      {
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "publicBuyerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicSellerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "buyerRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "sellerRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "enum BargainFHE.SessionState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "enum BargainFHE.SettlementPolicy",
+        name: "settlementPolicy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "bidWeightPercent",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "settlementPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "privateMode",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "inviteOnly",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "getSessionState",
+    outputs: [
+      {
+        internalType: "enum BargainFHE.SessionState",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "invitedSellers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedSellerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "sellerProof",
+        type: "bytes",
+      },
+    ],
+    name: "joinPrivateSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedSellerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "sellerProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "publicSellerPrice",
+        type: "uint256",
+      },
+    ],
+    name: "joinSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "requestMatchReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+    ],
+    name: "requestReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValue",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "resolveMatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValue",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "revealBuyerPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValue",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "revealSellerPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "sessionIds",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "sessions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "buyer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "seller",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedBuyerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedSellerPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedMatch",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedSettlementPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum BargainFHE.SettlementPolicy",
+        name: "settlementPolicy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "bidWeightPercent",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "settlementPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicBuyerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicSellerPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "buyerRevealRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "sellerRevealRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "buyerRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "sellerRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "enum BargainFHE.SessionState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "privateMode",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "round",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "buyerCountered",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "sellerCountered",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "inviteOnly",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "sessionId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "submitCounterOffer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001e257620000156200021a565b5046600103620000f357620000296200021a565b5062000034620001e6565b5f81525f60208201525f828201525b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970180548316918416919091179055918301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970280549093169116179055516132f69081620002378239f35b4662aa36a7036200016357620001086200021a565b5062000113620001e6565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b46617a6903620001d257620001776200021a565b5062000182620001e6565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200020657604052565b634e487b7160e01b5f52604160045260245ffd5b62000224620001e6565b905f82525f60208301525f604083015256fe6080806040526004361015610012575f80fd5b5f3560e01c9081631200d5a614611fcf575080631a92602614611f815780632399d39414611e705780632876678914611d1d578063363c72e414611c7b57806339b240bd14611b715780633fd2ea8714611a3b5780634d213982146119045780637c39da421461172c5780637dbd2832146115b65780637e2821771461157f578063856c71dd146115645780638927b0301461154a578063917f55451461150e57806397732b4d146112315780639b9f591314610fad578063be1a470314610f40578063c18741b514610a8a578063c8d60aab14610a45578063caa0c107146109f5578063ceeebcb114610827578063e2f401a9146107ae578063e52385031461077e578063ea90b1cb146107395763fcf85c601461012f575f80fd5b3461073557610160366003190112610735576001600160401b0360443581811161073557610161903690600401612232565b91906064358281116107355761017b903690600401612232565b9190600460c43510156107355760e4359060ff8216820361073557610124359460ff86168603610735576101443511610735576101e56101ed916101dd6101d56101cb3661014435600401612295565b97909a3691612154565b60043561273d565b953691612154565b60243561273d565b926101f98415156124dc565b606460ff8316116106fb57426101043511156106b65760ff85161561067b5760405160208101903360601b82524260348201526034815261023981612118565b51902094855f525f602052600b60405f20015461063d5781156105fd5760ff908160405194610267866120e1565b3386525f60208701528460408701525f60608701525f60808701525f60a087015260c43560c08701521660e08501525f6101008501525f6101208501525f6101408501525f6101608501525f6101808501525f6101a08501525f6101c08501525f6101e08501525f61020085015242610220850152610104356102408501526001610260850152166102808301525f6102a08301525f6102c08301525f6102e0830152845f525f60205260405f2060018060a01b03808451166bffffffffffffffffffffffff60a01b908184541617835560018301916020860151169082541617905560408301516002820155606083015160038201556080830151600482015560a0830151600582015560c083015160048110156105e95760068201805460e086015161ffff1990911660ff93841617600891821b61ff0016179091556101008501516007840155610120850151908301556101408401516009830155610160840151600a8301805491151590921660ff19919091161781559261018081015184546101a08301516101c084015163ff00000090151560181b1663ffffff001990921661ff00931515600890811b949094161762ff000091151560101b91909116171785556101e082015194908510156105e957600d6105149382610453610525986102e095612348565b610200850151815465ff0000000000191690151560281b65ff000000000016179055610220840151600b820155610240840151600c8201556102608401519101805461028085015161ffff1990911660ff939093169290921760089290921b61ff0016919091178155916102a0810151835462ff0000191690151560101b62ff0000161783556102c0810151835463ff000000191690151560181b63ff000000161783550151815464ff00000000191690151560201b60ff60201b16179055565b61051e3082612e95565b3390612e95565b60025493600160401b8510156105d5576105c76105cd9361054e876001602099016002556121fd565b81549060031b9088821b915f19901b1916179055855f805160206132ca833981519152886040515f33857f67633159e164099b4d8fc480543f50851374d3f06fa600a9a2ad650a4063a9018380a45f8152a2855f525f875260405f208160038201556084356008820155600960a4359101553090612e95565b83612af8565b604051908152f35b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52602160045260245ffd5b60405162461bcd60e51b815260206004820152601860248201527724b73b30b634b210313abcb2b91032b731b93cb83a34b7b760411b6044820152606490fd5b60405162461bcd60e51b815260206004820152601660248201527553657373696f6e20616c72656164792065786973747360501b6044820152606490fd5b60405162461bcd60e51b8152602060048201526013602482015272125b9d985b1a59081c9bdd5b99081b1a5b5a5d606a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152601e60248201527f446561646c696e65206d75737420626520696e207468652066757475726500006044820152606490fd5b60405162461bcd60e51b8152602060048201526012602482015271125b9d985b1a5908189a59081dd95a59da1d60721b6044820152606490fd5b5f80fd5b3461073557602036600319011261073557600435805f525f602052610766600b60405f20015415156122c5565b5f525f6020526020600560405f200154604051908152f35b34610735576107ac6107a06107a66107953661225f565b949192943691612154565b9061273d565b90612bf7565b005b34610735576080366003190112610735576044356004356001600160401b0382116107355761080f6101e56107ea6107ac943690600401612232565b845f525f60205261080860ff600a60405f20015460281c161561236b565b3691612154565b90805f525f602052606435600960405f200155612bf7565b3461073557610835366121b7565b9190815f526020925f8452610852600b60405f20015415156122c5565b5f83815280855260409020546001600160a01b031633036109b857825f525f845261088a60ff600a60405f20015460281c161561236b565b825f525f845260ff600a60405f200154851c1660088110156105e95760036108b291146123a9565b825f525f84526108cb60ff600a60405f20015416612433565b825f525f845260ff600a60405f20015460101c1661097a5761091b90826040516108f4816120fd565b60018152863681830137855f525f8752600260405f20015461091582612476565b526125d0565b828180518101031261073557827f9537aae905308c8d3befcce1d02519f00273ca841b22d87684459656a6c94f4e91015192825f525f8152600a60405f20856008820155016201000062ff0000198254161790556040519384523393a3005b60405162461bcd60e51b8152600481018590526016602482015275109d5e595c88185b1c9958591e481c995d99585b195960521b6044820152606490fd5b60405162461bcd60e51b815260048101859052601560248201527413db9b1e48189d5e595c8818d85b881c995d99585b605a1b6044820152606490fd5b3461073557602036600319011261073557600435805f525f602052610a22600b60405f20015415156122c5565b5f525f6020526020610a3660405f20612528565b610a4360405180926120b4565bf35b3461073557602036600319011261073557600435805f525f602052610a72600b60405f20015415156122c5565b5f525f6020526020600460405f200154604051908152f35b346107355760e03660031901126107355760246001600160401b03813581811161073557610abc903690600401612232565b90926044928335600481101561073557606491823560ff81168091036107355760a4359160ff831683036107355760c435908111610735576101d5610b08610b12923690600401612295565b9a90983691612154565b93808211610f0b57426084351115610ecb5760ff831615610e955760405160208101903360601b825242603482015260348152610b4e81612118565b51902097885f525f602052600b60405f200154610e5b578515610e1f5750509060ff9160405193610b7e856120e1565b3385525f60208601528560408601525f60608601525f60808601525f60a086015260c085015260e08401525f6101008401525f6101208401525f6101408401525f6101608401525f6101808401525f6101a08401525f6101c08401525f6101e08401526001610200840152426102208401526084356102408401526001610260840152166102808201525f6102a08201525f6102c08201525f6102e0820152845f525f60205260405f2060018060a01b03808351166bffffffffffffffffffffffff60a01b908184541617835560018301916020850151169082541617905560408201516002820155606082015160038201556080820151600482015560a0820151600582015560c08201516004811015610e0c5760068201805460e085015161ffff1990911660ff93841617600891821b61ff0016179091556101008401516007840155610120840151908301556101408301516009830155610160830151600a8301805491151590921660ff199190911617815561018083015181546101a08501516101c086015163ff00000090151560181b1663ffffff001990921661ff00931515600890811b949094161762ff000091151560101b91909116171782556101e084015190811015610df957600d61051493836104536102e094610d66999896612348565b60025490600160401b821015610de65750926105cd91610d8e856001602097016002556121fd565b81549060031b9086821b915f19901b1916179055835f805160206132ca833981519152866040515f33857f67633159e164099b4d8fc480543f50851374d3f06fa600a9a2ad650a4063a9018380a45f8152a283612af8565b634e487b7160e01b5f9081526041600452fd5b85634e487b7160e01b5f5260216004525ffd5b84634e487b7160e01b5f5260216004525ffd5b7724b73b30b634b210313abcb2b91032b731b93cb83a34b7b760411b879160186040519362461bcd60e51b855260206004860152840152820152fd5b7553657373696f6e20616c72656164792065786973747360501b879160166040519362461bcd60e51b855260206004860152840152820152fd5b60405162461bcd60e51b81526020600482015260138188015272125b9d985b1a59081c9bdd5b99081b1a5b5a5d606a1b818a0152fd5b60405162461bcd60e51b815260206004820152601e818801527f446561646c696e65206d75737420626520696e20746865206675747572650000818a0152fd5b60405162461bcd60e51b81526020600482015260128188015271125b9d985b1a5908189a59081dd95a59da1d60721b818a0152fd5b3461073557602036600319011261073557600435805f525f602052610f6d600b60405f20015415156122c5565b5f525f6020526080600d60405f20015460ff604051918181168352818160081c166020840152818160101c161515604084015260181c1615156060820152f35b3461073557610fbb3661225f565b9291825f526020915f835260405f2094610fda600b87015415156122c5565b610fe386612528565b60088110156105e95780610ffc6005600793141561230a565b036111ec5761101192916107a0913691612154565b80156111a75783546001600160a01b03903390821603611120575061106390600d850162010000815461104a60ff8260101c1615612490565b62ff0000191617905580600286015561051e3082612e95565b600d83019081549060ff8216604051818152857f1db9c670cfc979ef38874a951677c60d3628aeb01a9ceb66a1407ab829682824843393a360ff8360101c1680611113575b6110ae57005b60010160ff81116110ff576107ac9585945f805160206132ca8339815191529460ff600a94169063ffff00ff19161790550164010000000060ff60201b1982541617905560405160018152a261284f565b634e487b7160e01b5f52601160045260245ffd5b5060ff8360181c166110a8565b60018501541633145f146111625761106390600d85016301000000815461114d60ff8260181c1615612490565b63ff0000001916179055806003860155610514565b60405162461bcd60e51b815260048101839052601d60248201527f4f6e6c79207061727469636970616e74732063616e20636f756e7465720000006044820152606490fd5b60405162461bcd60e51b815260048101839052601860248201527f496e76616c6964206f6666657220656e6372797074696f6e00000000000000006044820152606490fd5b60405162461bcd60e51b815260048101859052601c60248201527f4e6f7420616363657074696e6720636f756e7465722d6f6666657273000000006044820152606490fd5b346107355761123f366121b7565b825f526020905f825261125a600b60405f20015415156122c5565b5f84815280835260409020600101546001600160a01b0316156114d457835f525f825261128960405f20612528565b6008811015806105e9576003821415806114c7575b15611489576105e957806112b76005600293141561230a565b0361144457604051906112c982612118565b6002825260403684840137845f525f8352600460405f2001546112eb83612476565b52845f525f8352600560405f2001548251600110156114305782859160406113149501526125d0565b60408280518101031261073557604061132e828401612483565b920151916001600160401b03831680930361073557600a60ff91855f805160206132ca83398151915295815f525f865260405f20925f146113d05760407f051ea0652dd68b39af4bfc198cf5df9f0421c7a9a3707a57d359b2f655f186bb9185850164030000000060ff60201b1982541617905580600786015586600d8601541690825191825288820152a25b0154821c166113cd60405180926120b4565ba2005b507fc77ae70877a65f437595a0b970b0b48bf0b45536f3c1665e2de6f1c9672bad2b8585600d8501805482808260081c169116105f146114265761141860075b888801612348565b5416604051908152a26113bb565b6114186004611410565b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260048101839052601a60248201527f4d617463682072657665616c206e6f74207265717565737465640000000000006044820152606490fd5b60405162461bcd60e51b815260048101859052601660248201527513585d18da08185b1c9958591e481c995cdbdb1d995960521b6044820152606490fd5b50505f600482141561129e565b60405162461bcd60e51b815260048101839052601260248201527114d95cdcda5bdb881b9bdd081a9bda5b995960721b6044820152606490fd5b346107355761151c3661208e565b905f52600160205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34610735575f3660031901126107355760206105cd61270e565b34610735575f36600319011261073557602060405160018152f35b3461073557602036600319011261073557600435600254811015610735576115a86020916121fd565b90546040519160031b1c8152f35b34610735576020366003190112610735576004355f525f60205260405f20600160a01b600190039081815416916001820154169060028101546003820154600483015460058401546006850154600786015490600887015492600988015494600a89015496600b8a015498600c8b01549a600d01549b604051809e81526020015260408d015260608c015260808b015260a08a015260c0890160ff82169061165d916120c1565b60081c60ff1660e089015261010088015261012087015261014086015260ff811615156101608601528060081c60ff1615156101808601528060101c60ff1615156101a08601528060181c60ff1615156101c08601526101e085018160201c60ff16906116c9916120b4565b60281c60ff16151561020085015261022084015261024083015260ff81166102608301528060081c60ff166102808301528060101c60ff1615156102a08301528060181c60ff1615156102c083015260201c60ff1615156102e082015261030090f35b346107355761173a366121b7565b9190815f526020925f8452611757600b60405f20015415156122c5565b5f83815280855260409020600101546001600160a01b031633036118c657825f525f845261179260ff600a60405f20015460281c161561236b565b825f525f845260ff600a60405f200154851c1660088110156105e95760036117ba91146123a9565b825f525f84526117d660ff600a60405f20015460081c16612433565b825f525f845260ff600a60405f20015460181c166118815761182090826040516117ff816120fd565b60018152863681830137855f525f8752600360405f20015461091582612476565b828180518101031261073557827f9537aae905308c8d3befcce1d02519f00273ca841b22d87684459656a6c94f4e91015192825f525f8152600a60405f2085600982015501630100000063ff000000198254161790556040519384523393a3005b60405162461bcd60e51b815260048101859052601760248201527f53656c6c657220616c72656164792072657665616c65640000000000000000006044820152606490fd5b60405162461bcd60e51b815260048101859052601660248201527513db9b1e481cd95b1b195c8818d85b881c995d99585b60521b6044820152606490fd5b3461073557602036600319011261073557600435805f525f60205260405f20611932600b82015415156122c5565b80546001600160a01b031633036119fe5761194c81612528565b60088110156105e9576119ad57600a0164060000000060ff60201b198254161790555f805160206132ca8339815191526020604051837f883267312f405596c9c8736d3e22eeae05fa9fa8279cef19af00defdfa6eaec15f80a260068152a2005b60405162461bcd60e51b815260206004820152602360248201527f4f6e6c79206f70656e2073657373696f6e732063616e2062652063616e63656c6044820152621b195960ea1b6064820152608490fd5b60405162461bcd60e51b815260206004820152601560248201527413db9b1e48189d5e595c8818d85b8818d85b98d95b605a1b6044820152606490fd5b34610735576020806003193601126107355760043590815f525f815260405f20611a6a600b82015415156122c5565b600a81019081549060ff82851c1660088110156105e957600514611b2c57611a9190612528565b60088110156105e957600503611af15764ff0000000019166405000000001790556040515f805160206132ca8339815191529190837f283d09930fab2adbecc898c4ef77831cad62d3f25d5c9e600e3937e5ceb41a385f80a260058152a2005b60405162461bcd60e51b815260048101849052601360248201527214d95cdcda5bdb881b9bdd08195e1c1a5c9959606a1b6044820152606490fd5b60405162461bcd60e51b815260048101859052601760248201527f53657373696f6e20616c726561647920657870697265640000000000000000006044820152606490fd5b3461073557602036600319011261073557600435805f525f602052611b9e600b60405f20015415156122c5565b5f525f6020526101c060405f2060018060a01b039081815416916001820154169060088101546009820154600a83015460ff9182611bdb86612528565b611c3a600688015491600789015494600b8a01549885600d600c8d01549c015460201c169b60206040519e8f908152015260408d015260608c0152838660101c16151560808c0152838660181c16151560a08c015260c08b01906120b4565b611c4960e08a018383166120c1565b60081c1661010088015261012087015260281c16151561014085015261016084015261018083015215156101a0820152f35b3461073557611c893661208e565b90805f525f60205260405f2090600b82015415159182611d02575b82611cb7575b6020836040519015158152f35b600d015460201c60ff161591508115611cd7575b50602091508280611caa565b90505f52600160205260405f209060018060a01b03165f52602052602060ff60405f20541682611ccb565b9150611d0d82612528565b60088110156105e9571591611ca4565b3461073557602036600319011261073557600435805f525f60205260405f20611d4b600b82015415156122c5565b600a810190815491611d6360ff8460281c161561236b565b60ff8360201c1660088110156105e9576003611d7f91146123a9565b81546001600160a01b03903390821603611deb57506002925060018154611da960ff8216156123e7565b60ff19161790550154905b611dbd82612dfa565b6040519182527fb9e3bbfbe6ad354ca4844428cc69b824ab043e9dee48d1365264b8487dee32c060203393a3005b60018301541633145f14611e1f5761010083611e0f60ff60039660081c16156123e7565b61ff001916179055015490611db4565b60405162461bcd60e51b8152602060048201526024808201527f4f6e6c79207061727469636970616e74732063616e20726571756573742072656044820152631d99585b60e21b6064820152608490fd5b3461073557602036600319011261073557600435805f525f60205260405f20611e9e600b82015415156122c5565b8054336001600160a01b0391821614908115611f71575b5015611e1f57611ec481612528565b60088110156105e95780611edd6005600193141561230a565b03611f2c5780611ef26004600a930154612dfa565b611eff6005820154612dfa565b0164020000000060ff60201b198254161790555f805160206132ca833981519152602060405160028152a2005b60405162461bcd60e51b815260206004820152601960248201527f4d61746368206e6f74206177616974696e672072657665616c000000000000006044820152606490fd5b9050600182015416331483611eb5565b3461073557602036600319011261073557600435805f525f602052611fae600b60405f20015415156122c5565b5f525f6020526040805f206003600282015491015482519182526020820152f35b34610735575f366003190112610735576002549081815260208082019260025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace915f905b828210612044576120408561202c81890382612133565b60405191829160208352602083019061205b565b0390f35b835486529485019460019384019390910190612015565b9081518082526020808093019301915f5b82811061207a575050505090565b83518552938101939281019260010161206c565b604090600319011261073557600435906024356001600160a01b03811681036107355790565b9060088210156105e95752565b9060048210156105e95752565b6001600160401b0381116105d557604052565b61030081019081106001600160401b038211176105d557604052565b604081019081106001600160401b038211176105d557604052565b606081019081106001600160401b038211176105d557604052565b90601f801991011681019081106001600160401b038211176105d557604052565b9291926001600160401b0382116105d5576040519161217d601f8201601f191660200184612133565b829481845281830111610735578281602093845f960137010152565b9080601f83011215610735578160206121b493359101612154565b90565b606060031982011261073557600435916001600160401b0360243581811161073557836121e691600401612199565b92604435918211610735576121b491600401612199565b6002548110156114305760025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace01905f90565b9181601f84011215610735578235916001600160401b038311610735576020838186019501011161073557565b6060600319820112610735576004359160243591604435906001600160401b0382116107355761229191600401612232565b9091565b9181601f84011215610735578235916001600160401b038311610735576020808501948460051b01011161073557565b156122cc57565b60405162461bcd60e51b815260206004820152601660248201527514d95cdcda5bdb88191bd95cc81b9bdd08195e1a5cdd60521b6044820152606490fd5b1561231157565b60405162461bcd60e51b815260206004820152600f60248201526e14d95cdcda5bdb88195e1c1a5c9959608a1b6044820152606490fd5b9060088110156105e95760ff60201b82549160201b169060ff60201b1916179055565b1561237257565b60405162461bcd60e51b815260206004820152600f60248201526e283934bb30ba329039b2b9b9b4b7b760891b6044820152606490fd5b156123b057565b60405162461bcd60e51b815260206004820152600f60248201526e139bc81b585d18da1959081919585b608a1b6044820152606490fd5b156123ee57565b60405162461bcd60e51b815260206004820152601860248201527f52657665616c20616c72656164792072657175657374656400000000000000006044820152606490fd5b1561243a57565b60405162461bcd60e51b815260206004820152601460248201527314995d99585b081b9bdd081c995c5d595cdd195960621b6044820152606490fd5b8051156114305760200190565b5190811515820361073557565b1561249757565b60405162461bcd60e51b815260206004820152601f60248201527f436f756e7465722d6f6666657220616c7265616479207375626d6974746564006044820152606490fd5b156124e357565b60405162461bcd60e51b815260206004820152601960248201527f496e76616c69642073656c6c657220656e6372797074696f6e000000000000006044820152606490fd5b60ff600a82015460201c1690600882101590816105e9578215918215612585575b8215612573575b5081612565575b5061255f5790565b50600590565b600c9150015442115f612557565b9091506105e95760078214905f612550565b506001831491505f612549565b91908251928382525f5b8481106125bc575050825f602080949584010152601f8019910116010190565b60208183018101518483018201520161259c565b909291925f602061265460018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702541660409788519485809481936378542ead60e01b83526060600484015261262d606484018c61205b565b9061264560031992838682030160248701528c612592565b91848303016044850152612592565b03925af1908115612704575f916126ca575b50156126b957926126b47fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a093946126a6835194848695865285019061205b565b908382036020850152612592565b0390a1565b835163cf6c44e960e01b8152600490fd5b90506020813d6020116126fc575b816126e560209383612133565b81010312610735576126f690612483565b5f612666565b3d91506126d8565b85513d5f823e3d90fd5b4660010361271b57600190565b4662aa36a70361272b5761271190565b617a694614612738575f90565b5f1990565b602061278d9260018060a01b0392835f805160206132aa8339815191525416905f60405180978195829463045fc19560e11b84526004840152336024840152608060448401526084830190612592565b6004606483015203925af1918215612810575f9261281b575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561073557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561281057612807575090565b6121b4906120ce565b6040513d5f823e3d90fd5b9091506020813d602011612847575b8161283760209383612133565b810103126107355751905f6127a6565b3d915061282a565b805f5260205f8152604090815f20916002830154906003840154918015612aea575b8215612ada575b60018060a01b03845f805160206132aa83398151915294606483875416945f87519687948593631391547f60e01b8552600485015260248401528160448401525af19182156129f9575f92612aab575b50846128d387612efc565b946128dc613256565b95809185918615612a2d575b15612a1d575b8715612a03575b905f8560649354168851998a958694637702dcff60e01b86526004860152602485015260448401525af19384156129f9575f946129c3575b509060ff600d7f8949b25ff7c5a9e7de6256997ef3a4880f206aa9d5959f687c8bcff0dd9a4c95976129a56060989796956129683087612e95565b6129723089612e95565b61297f8184541687612e95565b600183016129908282541688612e95565b61299d828554168a612e95565b541687612e95565b836004820155856005820155015416938251948552840152820152a2565b94935091908385813d81116129f2575b6129dd8183612133565b810103126107355793519293909160ff61292d565b503d6129d3565b83513d5f823e3d90fd5b96506064905f85612a12613256565b9992935050506128f5565b9150612a27613256565b916128ee565b9293819250855f9254166044895180948193639cd07acb60e01b83528160048401528160248401525af1908115612aa1579089949392915f91612a72575b50916128e8565b85819692503d8311612a9a575b612a898183612133565b81010312610735578893515f612a6b565b503d612a7f565b87513d5f823e3d90fd5b9091508481813d8311612ad3575b612ac38183612133565b810103126107355751905f6128c8565b503d612ab9565b9150612ae4613204565b91612878565b50612af3613204565b612871565b9190918115612bf257805f526020905f602052604093600d60405f200164010000000060ff60201b198254161790555f5b848110612b3857505050505050565b600581901b8201356001600160a01b038116908190036107355780151580612be8575b15612bab5790600191845f5282808752885f20825f528752885f209060ff19825416179055847ffdcff4a7ef9ed912971f9c1079885c28d736b5beab674a458e4927da9e865bdd5f80a301612b29565b865162461bcd60e51b815260048101869052601660248201527524b73b30b634b21034b73b34ba32b21039b2b63632b960511b6044820152606490fd5b5033811415612b5b565b505050565b919091805f5260205f8152604093612c16600b865f20015415156122c5565b5f838152808352859020600101546001600160a01b0391908216612dbd57835f525f8352612c45865f20612528565b60088110156105e957612c5b600582141561230a565b612d8657835f525f835260ff600d875f200154841c16158015612d6d575b15612d295791612d2794955f805160206132ca83398151915292612ce885612ca3889715156124dc565b5f8781528086528490206001810180546001600160a01b0319163317905560038101829055600a01805464ff00000000191664010000000017905561051e3082612e95565b845f525f8352815f2054169051903390857f67633159e164099b4d8fc480543f50851374d3f06fa600a9a2ad650a4063a9015f80a460018152a261284f565b565b855162461bcd60e51b815260048101849052601b60248201527f4e6f7420696e766974656420746f20746869732073657373696f6e00000000006044820152606490fd5b5060018352855f20335f52835260ff865f205416612c79565b855162461bcd60e51b815260048101849052601060248201526f29b2b9b9b4b7b7103737ba1037b832b760811b6044820152606490fd5b855162461bcd60e51b815260048101849052601660248201527514d95cdcda5bdb88185b1c9958591e481a9bda5b995960521b6044820152606490fd5b60405190612e07826120fd565b6001825260203681840137612e1b82612476565b527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561073557604051637d6e912360e11b815260206004820152915f918391829084908290612e7b90602483019061205b565b03925af1801561281057612e8c5750565b612d27906120ce565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561073557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101612e7b565b612f0960028201546130ac565b6006612f1860038401546130ac565b920160ff81541660048110156105e957600181146130a6576002811461309f571561301c5760ff612f4f915460081c168092613183565b90606403916001600160401b0383116110ff57612f7592612f6f91613183565b906130ff565b8015613008575b5f805160206132aa83398151915254604051635a53accb60e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af1908115612810575f91612fd9575090565b90506020813d602011613000575b81612ff460209383612133565b81010312610735575190565b3d9150612fe7565b505f6020613014613256565b915050612f7c565b5090613027916130ff565b801561308b575b5f805160206132aa83398151915254604051635a53accb60e01b8152600481019290925260026024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115612810575f91612fd9575090565b505f6020613097613256565b91505061302e565b5050905090565b50505090565b5f805160206132aa833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115612810575f91612fd9575090565b908115613173575b8015613161575b602090606460018060a01b035f805160206132aa8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115612810575f91612fd9575090565b50602061316c613256565b905061310e565b905061317d613256565b90613107565b6001600160401b039160209180156131f2575b5f805160206132aa83398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115612810575f91612fd9575090565b5060646131fd613256565b9050613196565b5f805160206132aa83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115612810575f91612fd9575090565b5f805160206132aa83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115612810575f91612fd957509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701af1483de511199166fd15277bbb37ca306e6535335227680867735741be69846a164736f6c6343000818000a";
+
+type BargainFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: BargainFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class BargainFHE__factory extends ContractFactory {
+  constructor(...args: BargainFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      BargainFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): BargainFHE__factory {
+    return super.connect(runner) as BargainFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): BargainFHEInterface {
+    return new Interface(_abi) as BargainFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): BargainFHE {
+    return new Contract(address, _abi, runner) as unknown as BargainFHE;
+  }
+}
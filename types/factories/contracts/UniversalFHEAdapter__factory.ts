@@ -1,403 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../common";
-import type {
-  UniversalFHEAdapter,
-  UniversalFHEAdapterInterface,
-} from "../../contracts/UniversalFHEAdapter";
-
-const _abi = [
-  {
-    inputs: [],
-    stateMutability: "nonpayable",
-    type: "constructor",
-  },
-  {
-    inputs: [],
-    name: "InvalidKMSSignatures",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "ZamaProtocolUnsupported",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "string",
-        name: "businessId",
-        type: "string",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
-    ],
-    name: "BusinessDataCreated",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "string",
-        name: "businessId",
-        type: "string",
-      },
-      {
-        indexed: false,
-        internalType: "uint32",
-        name: "decryptedValue",
-        type: "uint32",
-      },
-    ],
-    name: "DecryptionVerified",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "bytes32[]",
-        name: "handlesList",
-        type: "bytes32[]",
-      },
-      {
-        indexed: false,
-        internalType: "bytes",
-        name: "abiEncodedCleartexts",
-        type: "bytes",
-      },
-    ],
-    name: "PublicDecryptionVerified",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    name: "businessData",
-    outputs: [
-      {
-        internalType: "string",
-        name: "name",
-        type: "string",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedValue",
-        type: "bytes32",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue1",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue2",
-        type: "uint256",
-      },
-      {
-        internalType: "string",
-        name: "description",
-        type: "string",
-      },
-      {
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-      {
-        internalType: "uint32",
-        name: "decryptedValue",
-        type: "uint32",
-      },
-      {
-        internalType: "bool",
-        name: "isVerified",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "businessIds",
-    outputs: [
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "confidentialProtocolId",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "businessId",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "name",
-        type: "string",
-      },
-      {
-        internalType: "externalEuint32",
-        name: "encryptedValue",
-        type: "bytes32",
-      },
-      {
-        internalType: "bytes",
-        name: "inputProof",
-        type: "bytes",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue1",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue2",
-        type: "uint256",
-      },
-      {
-        internalType: "string",
-        name: "description",
-        type: "string",
-      },
-    ],
-    name: "createBusinessData",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "getAllBusinessIds",
-    outputs: [
-      {
-        internalType: "string[]",
-        name: "",
-        type: "string[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "businessId",
-        type: "string",
-      },
-    ],
-    name: "getBusinessData",
-    outputs: [
-      {
-        internalType: "string",
-        name: "name",
-        type: "string",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue1",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue2",
-        type: "uint256",
-      },
-      {
-        internalType: "string",
-        name: "description",
-        type: "string",
-      },
-      {
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-      {
-        internalType: "bool",
-        name: "isVerified",
-        type: "bool",
-      },
-      {
-        internalType: "uint32",
-        name: "decryptedValue",
-        type: "uint32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "businessId",
-        type: "string",
-      },
-    ],
-    name: "getEncryptedValue",
-    outputs: [
-      {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "isAvailable",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "businessId",
-        type: "string",
-      },
-      {
-        internalType: "bytes",
-        name: "abiEncodedClearValue",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes",
-        name: "decryptionProof",
-        type: "bytes",
-      },
-    ],
-    name: "verifyDecryption",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x6080604052346200012f576200001462000167565b5046600103620000ee576200002862000167565b506200003362000133565b5f81525f60208201525f60408201525b60018060a01b036040818351169260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009085825416179055826020820151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790550151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029182541617905560405161129d9081620001e78239f35b4662aa36a70362000109576200010362000183565b62000043565b46617a69036200011d576200010362000183565b6040516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200015357604052565b634e487b7160e01b5f52604160045260245ffd5b6200017162000133565b905f82525f60208301525f6040830152565b6200018d62000167565b506200019862000133565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a60408201529056fe6080806040526004361015610012575f80fd5b5f905f3560e01c9081624ffd2f14610d2b5750806355ad553014610c32578063856c71dd14610c175780638927b03014610bf5578063939aaa7614610b835780639c6f885514610b21578063a14cd45c1461082e578063adb330d11461018c5763e29e7e2414610080575f80fd5b34610189576020366003190112610189576004356001600160401b0381116101855736602382011215610185576020610141926100ca6100de933690602481600401359101611009565b908260405194838680955193849201610e51565b8201908152030190206100f081610f67565b9060ff60018201549160028101549061015e60038201549461011460048401610f67565b60018060a01b036005850154169660076006860154950154956040519a8b9a610120808d528c0190610e72565b9360208b015260408a015260608901528782036080890152610e72565b9360a086015260c085015263ffffffff811660e085015260201c1615156101008301520390f35b5080fd5b80fd5b50346106b35760e03660031901126106b3576004356001600160401b0381116106b3576101bd903690600401610e24565b6024356001600160401b0381116106b3576101dc903690600401610e24565b6064356001600160401b0381116106b3576101fb903690600401610e24565b9060c4356001600160401b0381116106b35761021b903690600401610e24565b91909261023d604051888a82375f898201526020818a81010301902054610ee0565b6107e95761025761024f368385611009565b604435611176565b156107a45761026b9161024f913691611009565b604051946101208601908682106001600160401b0383111761072c576102b795610299926040523691611009565b85526020850152608435604085015260a43560608501523691611009565b60808201523360a08201524260c08201525f60e08201525f610100820152604051828482376020818481015f8152030190209080518051906001600160401b03821161072c576103118261030b8654610ee0565b866110c5565b602090601f83116001146107405761034092915f91836106b7575b50508160011b915f199060031b1c19161790565b82555b60208101516001830155604081015160028301556060810151600383015560808101518051906001600160401b03821161072c57610391826103886004870154610ee0565b600487016110c5565b602090601f83116001146106c2576103bf92915f91836106b75750508160011b915f199060031b1c19161790565b60048301555b6007600583019260018060a01b03938460a0850151166bffffffffffffffffffffffff60a01b82541617905560c08301516006820155019063ffffffff60e08201511664ff000000006101008454930151151560201b169164ffffffffff1916171790556001604051838582376020818581015f8152030190200154907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009181835416803b156106b357604051635ca4b5b160e11b815260048101929092523060248301525f908290604490829084905af180156106a857610693575b5090849160016040518587823760208187810187815203019020015491604051926104cc84610f2b565b60018452602036818601376104e0846110b8565b525416803b1561068457604051637d6e912360e11b8152602060048201529183918391829084908290610517906024830190611143565b03925af1801561068857610670575b5050600154680100000000000000008110156106485780600161054c9201600155610e97565b61065c576001600160401b038211610648576105728261056c8354610ee0565b836110c5565b8382601f81116001146105e6578061059e9287916105db575b508160011b915f199060031b1c19161790565b90555b806040519283378101905f82528033920390207f18084c0d01598eaa54d6c13f683cb03a229998bbebeef621fa82b9ae77346c908380a380f35b90508501355f61058b565b50818552602085209083601f198116875b81811061062d575010610614575b5050600182811b0190556105a1565b8401355f19600385901b60f8161c191690555f80610605565b878401358555600190940193602093840193879350016105f7565b634e487b7160e01b84526041600452602484fd5b634e487b7160e01b84526004849052602484fd5b61067990610f18565b61068457825f610526565b8280fd5b6040513d84823e3d90fd5b61069f91929550610f18565b5f93905f6104a2565b6040513d5f823e3d90fd5b5f80fd5b015190505f8061032c565b90601f19831691600486015f5260205f20925f5b81811061071457509084600195949392106106fc575b505050811b0160048301556103c5565b01515f1960f88460031b161c191690555f80806106ec565b929360206001819287860151815501950193016106d6565b634e487b7160e01b5f52604160045260245ffd5b90601f19831691855f5260205f20925f5b81811061078c5750908460019594939210610774575b505050811b018255610343565b01515f1960f88460031b161c191690555f8080610767565b92936020600181928786015181550195019301610751565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f427573696e657373206461746120616c726561647920657869737473000000006044820152606490fd5b346106b3576003196060368201126106b3576001600160401b036004358181116106b357610860903690600401610e24565b9290916024358181116106b35761087b90369060040161104e565b906044359081116106b35761089490369060040161104e565b60405192858585376108bf6108b8858881015f815260209788910301902054610ee0565b151561106c565b60ff60076040518888823786818a81015f8152030190200154851c16610ae4578361099191604051936108f185610f2b565b6001855282368187013760016040518a8a823784818c81015f815203019020015461091b866110b8565b5260018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416905f6040518096819582946378542ead60e01b845260606004850152610982610972606486018d611143565b838682030160248701528d610e72565b91848303016044850152610e72565b03925af19081156106a8575f91610aae575b5015610a9c576109e57fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0916109f2604051928392604084526040840190611143565b8281038784015285610e72565b0390a181818051810103126106b3578101519263ffffffff84168094036106b3577fca2f7a1fbd37914cee526f7eca6d88e8cc97492eb9f2d9ab29f37561774b57cb9260076040518383823784818581015f815203019020018563ffffffff1982541617905560076040518383823784818581015f8152030190200164010000000064ff000000001982541617905581604051928392833781015f815203902092604051908152a2005b60405163cf6c44e960e01b8152600490fd5b90508381813d8311610add575b610ac58183610f46565b810103126106b3575180151581036106b357866109a3565b503d610abb565b60405162461bcd60e51b815260048101859052601560248201527411185d1848185b1c9958591e481d995c9a599a5959605a1b6044820152606490fd5b346106b35760203660031901126106b3576004356001548110156106b357610b4890610e97565b610b7057610b58610b6c91610f67565b604051918291602083526020830190610e72565b0390f35b634e487b7160e01b5f525f60045260245ffd5b346106b35760203660031901126106b3576004356001600160401b0381116106b35760016020610bb881933690600401610e24565b9190610bd96108b86040518584823784818781015f81520301902054610ee0565b82604051938492833781015f8152030190200154604051908152f35b346106b3575f3660031901126106b3576020610c0f611114565b604051908152f35b346106b3575f3660031901126106b357602060405160018152f35b346106b3575f3660031901126106b357600180546001600160401b03811161072c579060209060405191610c6b818560051b0184610f46565b838352808301938460015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65f915b838310610d025750505050604051928184019082855251809152604084019160408260051b86010195925f905b838210610cd55786880387f35b90919293948380610cf1839a603f198b82030186528951610e72565b999701959493919091019101610cc8565b90858086819a989594610d17859b999b610f67565b815201920192019250969496959395610c9b565b346106b35760203660031901126106b357600435906001600160401b0382116106b35760206108b891610d81610d68610de9953690600401610e24565b9490928584823784818781015f81520301902054610ee0565b82604051938492833781015f815203019020600281015463ffffffff600383015460018060a01b0360058501541692610e01600686015491600787015493610dd46004610dcd8a610f67565b9901610f67565b90604051998a99610100808c528b0190610e72565b9260208a015260408901528782036060890152610e72565b93608086015260a085015260ff8160201c16151560c08501521660e08301520390f35b9181601f840112156106b3578235916001600160401b0383116106b357602083818601950101116106b357565b5f5b838110610e625750505f910152565b8181015183820152602001610e53565b90602091610e8b81518092818552858086019101610e51565b601f01601f1916010190565b600154811015610ecc5760015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf601905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015610f0e575b6020831014610efa57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610eef565b6001600160401b03811161072c57604052565b604081019081106001600160401b0382111761072c57604052565b90601f801991011681019081106001600160401b0382111761072c57604052565b9060405191825f8254610f7981610ee0565b908184526020946001916001811690815f14610fe75750600114610fa9575b505050610fa792500383610f46565b565b5f90815285812095935091905b818310610fcf575050610fa793508201015f8080610f98565b85548884018501529485019487945091830191610fb6565b92505050610fa794925060ff191682840152151560051b8201015f8080610f98565b9291926001600160401b03821161072c5760405191611032601f8201601f191660200184610f46565b8294818452818301116106b3578281602093845f960137010152565b9080601f830112156106b35781602061106993359101611009565b90565b1561107357565b60405162461bcd60e51b815260206004820152601c60248201527f427573696e657373206461746120646f6573206e6f74206578697374000000006044820152606490fd5b805115610ecc5760200190565b601f82116110d257505050565b5f5260205f20906020601f840160051c8301931061110a575b601f0160051c01905b8181106110ff575050565b5f81556001016110f4565b90915081906110eb565b4660010361112157600190565b4662aa36a7036111315761271190565b617a69461461113e575f90565b5f1990565b9081518082526020808093019301915f5b828110611162575050505090565b835185529381019392810192600101611154565b60206111d99260018060a01b0392837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416905f60405180978195829463045fc19560e11b84526004840152336024840152608060448401526084830190610e72565b6004606483015203925af19182156106a8575f9261125c575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156106b357604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156106a857611253575090565b61106990610f18565b9091506020813d602011611288575b8161127860209383610f46565b810103126106b35751905f6111f2565b3d915061126b56fea164736f6c6343000818000a";
-
-type UniversalFHEAdapterConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: UniversalFHEAdapterConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class UniversalFHEAdapter__factory extends ContractFactory {
-  constructor(...args: UniversalFHEAdapterConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      UniversalFHEAdapter & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(
-    runner: ContractRunner | null
-  ): UniversalFHEAdapter__factory {
-    return super.connect(runner) as UniversalFHEAdapter__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): UniversalFHEAdapterInterface {
-    return new Interface(_abi) as UniversalFHEAdapterInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): UniversalFHEAdapter {
-    return new Contract(
-      address,
-      _abi,
-      runner
-    ) as unknown as UniversalFHEAdapter;
-  }
-}
-
-
@@ -42,9 +42,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalFHEAdapter",
+      name: "BargainFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalFHEAdapter__factory>;
+    ): Promise<Contracts.BargainFHE__factory>;
 
     getContractAt(
       name: "ZamaConfig",
@@ -82,10 +82,10 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalFHEAdapter",
+      name: "BargainFHE",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalFHEAdapter>;
+    ): Promise<Contracts.BargainFHE>;
 
     deployContract(
       name: "ZamaConfig",
@@ -116,9 +116,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalFHEAdapter",
+      name: "BargainFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalFHEAdapter>;
+    ): Promise<Contracts.BargainFHE>;
 
     deployContract(
       name: "ZamaConfig",
@@ -156,10 +156,10 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalFHEAdapter",
+      name: "BargainFHE",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalFHEAdapter>;
+    ): Promise<Contracts.BargainFHE>;
 
     // default types
     getContractFactory(
@@ -187,5 +187,3 @@ declare module "hardhat/types/runtime" {
     ): Promise<ethers.Contract>;
   }
 }
-
-
@@ -20,7 +20,5 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalFHEAdapter } from "./contracts/UniversalFHEAdapter";
-export { UniversalFHEAdapter__factory } from "./factories/contracts/UniversalFHEAdapter__factory";
-
-
+export type { BargainFHE } from "./contracts/Bargain_FHE.sol/BargainFHE";
+export { BargainFHE__factory } from "./factories/contracts/Bargain_FHE.sol/BargainFHE__factory";